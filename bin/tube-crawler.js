@@ -0,0 +1,25 @@
+#!/usr/bin/env node
+/**
+ * tube-crawler command line entry
+ *
+ * Runs the built app (npm run build, or vite once) in command line mode with
+ * Electron, so the native modules match, and passes the exit code through.
+ * The installed app can be called directly instead:
+ *   "/Applications/Tube Crawler.app/Contents/MacOS/Tube Crawler" --cli <command>
+ */
+import { spawn } from 'child_process'
+import path from 'path'
+import { fileURLToPath } from 'url'
+import electron from 'electron'
+
+const root = path.join(path.dirname(fileURLToPath(import.meta.url)), '..')
+
+const child = spawn(electron, [root, '--cli', ...process.argv.slice(2)], { stdio: 'inherit' })
+
+child.on('error', (error) => {
+  process.stderr.write(`tube-crawler: could not start Electron: ${error.message}\n`)
+  process.exit(1)
+})
+child.on('exit', (code, signal) => {
+  process.exit(signal ? 1 : code ?? 1)
+})
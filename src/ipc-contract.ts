@@ -0,0 +1,399 @@
+import type { DownloadErrorCode } from './main/services/download-error'
+import type {
+  ApiServerStatus,
+  AppSettings,
+  AvailabilityRecord,
+  AvailabilityStatus,
+  CaptionTrackInfo,
+  Channel,
+  Collection,
+  DownloadJob,
+  FormatInfo,
+  IntegrityReport,
+  LibraryExportResult,
+  LibraryImportReport,
+  LibraryMoveProgress,
+  LibraryMoveResult,
+  Playlist,
+  PlaylistImportResult,
+  QueueStatus,
+  StorageStats,
+  SubtitleTrack,
+  Tag,
+  TakeoutImportReport,
+  VideoChapter,
+  VideoMetadata,
+  WatchHistoryEntry,
+  WatchProgress,
+  YouTubeSearchResult
+} from './types'
+
+/**
+ * IPC contract shared by the main process, the preload bridge and the renderer
+ *
+ * Every invoke channel is declared once below with validators for its
+ * arguments and the type of its result. The main process registers handlers
+ * against it (arguments are validated before the handler runs), the preload
+ * builds `window.api` from it, and the renderer's `window.api` type is derived
+ * from it, so the three can't drift apart. Channels are named
+ * `namespace:method` and exposed as `window.api.namespace.method`.
+ */
+
+export type ApiErrorCode =
+  | 'INVALID_ARGUMENT'
+  | 'NOT_FOUND'
+  | 'CONFLICT'
+  | 'UNAUTHORIZED'
+  | 'INTERNAL'
+  | DownloadErrorCode
+
+/**
+ * Error with a code the renderer can act on; thrown by handlers and validators
+ */
+export class ApiError extends Error {
+  readonly code: ApiErrorCode
+
+  constructor(code: ApiErrorCode, message: string) {
+    super(message)
+    this.name = 'ApiError'
+    this.code = code
+  }
+}
+
+/**
+ * Result of every invoke: the handler's fields on success, the error and its code on failure
+ */
+export type ApiResponse<T = {}> =
+  | ({ success: true; error?: undefined; code?: undefined } & T)
+  | ({ success: false; error: string; code: ApiErrorCode } & { [K in keyof T]?: undefined })
+
+// Argument validators
+
+/**
+ * Checks an argument received over IPC and returns it typed (objects are
+ * returned without unknown keys); throws an INVALID_ARGUMENT ApiError otherwise
+ */
+export type Validator<T> = (value: unknown, name: string) => T
+
+type OptionalValidator<T> = Validator<T | undefined> & { optional: true }
+
+type Infer<V> = V extends Validator<infer T> ? T : never
+
+type Simplify<T> = { [K in keyof T]: T[K] } & {}
+
+type ObjectShape = Record<string, Validator<unknown>>
+
+type InferObject<S extends ObjectShape> = Simplify<
+  { [K in keyof S as S[K] extends { optional: true } ? never : K]: Infer<S[K]> } &
+  { [K in keyof S as S[K] extends { optional: true } ? K : never]?: Infer<S[K]> }
+>
+
+function invalid(name: string, expected: string): never {
+  throw new ApiError('INVALID_ARGUMENT', `${name} must be ${expected}`)
+}
+
+export const v = {
+  string: ((value, name) => (typeof value === 'string' ? value : invalid(name, 'a string'))) as Validator<string>,
+
+  number: ((value, name) =>
+    typeof value === 'number' && Number.isFinite(value) ? value : invalid(name, 'a number')) as Validator<number>,
+
+  integer: ((value, name) =>
+    typeof value === 'number' && Number.isInteger(value) ? value : invalid(name, 'an integer')) as Validator<number>,
+
+  /** A number from min to max, inclusive */
+  numberIn(min: number, max: number): Validator<number> {
+    return (value, name) => {
+      const number = v.number(value, name)
+      return number >= min && number <= max ? number : invalid(name, `between ${min} and ${max}`)
+    }
+  },
+
+  /** An integer from min to max, inclusive */
+  integerIn(min: number, max: number): Validator<number> {
+    return (value, name) => {
+      const integer = v.integer(value, name)
+      return integer >= min && integer <= max ? integer : invalid(name, `between ${min} and ${max}`)
+    }
+  },
+
+  boolean: ((value, name) => (typeof value === 'boolean' ? value : invalid(name, 'true or false'))) as Validator<boolean>,
+
+  oneOf<const T extends readonly string[]>(...values: T): Validator<T[number]> {
+    return (value, name) =>
+      values.includes(value as string) ? (value as T[number]) : invalid(name, `one of ${values.join(', ')}`)
+  },
+
+  array<T>(item: Validator<T>): Validator<T[]> {
+    return (value, name) =>
+      Array.isArray(value) ? value.map((element, i) => item(element, `${name}[${i}]`)) : invalid(name, 'an array')
+  },
+
+  object<S extends ObjectShape>(shape: S): Validator<InferObject<S>> {
+    return (value, name) => {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        return invalid(name, 'an object')
+      }
+      const result: Record<string, unknown> = {}
+      for (const [key, validate] of Object.entries(shape)) {
+        const field = validate((value as Record<string, unknown>)[key], `${name}.${key}`)
+        if (field !== undefined) {
+          result[key] = field
+        }
+      }
+      return result as InferObject<S>
+    }
+  },
+
+  /** Also accepts undefined (and null, which IPC can't tell apart from a missing value) */
+  optional<T>(validate: Validator<T>): OptionalValidator<T> {
+    const optional: Validator<T | undefined> = (value, name) =>
+      value === undefined || value === null ? undefined : validate(value, name)
+    return Object.assign(optional, { optional: true as const })
+  }
+}
+
+// Shapes of the object arguments
+
+const subtitleSelection = v.object({ languageCode: v.string, auto: v.boolean })
+
+// Queue priority; higher runs first
+const priority = v.integerIn(-1000, 1000)
+
+const downloadOptions = v.object({
+  quality: v.oneOf('best', '2160p', '1440p', '1080p', '720p', '480p', '360p'),
+  codec: v.oneOf('any', 'avc1', 'av01'),
+  audioOnly: v.boolean,
+  audioFormat: v.oneOf('m4a', 'opus'),
+  adaptive: v.boolean,
+  itag: v.optional(v.integer),
+  subtitles: v.optional(v.array(subtitleSelection))
+})
+
+const channelRules = v.object({
+  autoDownload: v.boolean,
+  maxDuration: v.optional(v.number),
+  keywordFilter: v.optional(v.string),
+  maxAgeDays: v.optional(v.number)
+})
+
+// Concurrency and pausing go through the queue:* channels, which apply them to the running queue
+const settingsUpdate = v.object({
+  maxDownloadAttempts: v.optional(v.integerIn(1, 20)),
+  defaultDownloadOptions: v.optional(downloadOptions),
+  channelCheckIntervalMinutes: v.optional(v.numberIn(5, 7 * 24 * 60)),
+  watchedThresholdPercent: v.optional(v.numberIn(1, 100)),
+  metadataRefreshIntervalHours: v.optional(v.numberIn(1, 30 * 24))
+})
+
+const repairAction = v.oneOf('reset', 'redownload', 'adopt', 'delete')
+
+const integrityIssue = v.object({
+  kind: v.oneOf('missing_file', 'size_mismatch', 'orphan_file', 'stuck_download'),
+  videoId: v.optional(v.string),
+  title: v.optional(v.string),
+  filePath: v.optional(v.string),
+  expectedSize: v.optional(v.number),
+  actualSize: v.optional(v.number),
+  actions: v.array(repairAction)
+})
+
+// Channel definitions
+
+type ArgValidators = readonly Validator<unknown>[]
+
+export interface IpcMethod<A extends ArgValidators, R> {
+  args: A
+  /** Other windows are sent 'library:changed' after the call succeeds */
+  changesLibrary?: boolean
+  /** Type-only: the fields returned on success */
+  readonly result?: R
+}
+
+interface MethodOptions {
+  changesLibrary?: boolean
+}
+
+function method<const A extends ArgValidators>(
+  args: A,
+  options: MethodOptions = {}
+): IpcMethod<A, {}> & { returns<R>(): IpcMethod<A, R> } {
+  const definition = { args, ...options }
+  return { ...definition, returns: () => definition }
+}
+
+const changesLibrary: MethodOptions = { changesLibrary: true }
+
+export interface IpcEvent<P> {
+  /** Where the listener appears on window.api: [namespace, method] */
+  api: readonly [string, string]
+  /** Type-only: the payload sent with the event */
+  readonly payload?: P
+}
+
+function event<const N extends string, const M extends string>(namespace: N, name: M) {
+  return { payload: <P>(): IpcEvent<P> & { api: readonly [N, M] } => ({ api: [namespace, name] }) }
+}
+
+export const ipcContract = {
+  'video:add': method([v.string], changesLibrary).returns<{ video: VideoMetadata }>(),
+  'video:getAll': method([]).returns<{ videos: VideoMetadata[] }>(),
+  'video:search': method([v.string]).returns<{ videos: VideoMetadata[] }>(),
+  'video:searchYouTube': method([v.string]).returns<{ videos: YouTubeSearchResult[] }>(),
+  'video:delete': method([v.string], changesLibrary),
+  'video:download': method([v.string, v.string, v.optional(downloadOptions)]).returns<{ job: DownloadJob }>(),
+  'video:getFormats': method([v.string]).returns<{ formats: FormatInfo[] }>(),
+  'video:getCaptionTracks': method([v.string]).returns<{ tracks: CaptionTrackInfo[] }>(),
+  'video:getSubtitles': method([v.string]).returns<{ subtitles: SubtitleTrack[] }>(),
+  'video:pauseDownload': method([v.string]).returns<{ paused: boolean }>(),
+  'video:discardDownload': method([v.string]),
+  'video:getChapters': method([v.string]).returns<{ chapters: VideoChapter[] }>(),
+  'video:refreshMetadata': method([v.string], changesLibrary).returns<{ video: VideoMetadata }>(),
+  'video:getAvailabilityHistory': method([v.string]).returns<{ history: AvailabilityRecord[] }>(),
+
+  'queue:getStatus': method([]).returns<{ status: QueueStatus }>(),
+  'queue:enqueue': method([v.string, v.string, v.optional(priority), v.optional(downloadOptions)])
+    .returns<{ job: DownloadJob }>(),
+  'queue:remove': method([v.string]).returns<{ removed: boolean }>(),
+  'queue:setPriority': method([v.string, priority]),
+  'queue:pause': method([]),
+  'queue:resume': method([]),
+  'queue:setMaxConcurrency': method([v.integer]),
+
+  'playlist:import': method(
+    [v.string, v.optional(v.object({ download: v.optional(v.boolean) }))],
+    changesLibrary
+  ).returns<PlaylistImportResult>(),
+  'playlist:getAll': method([]).returns<{ playlists: Playlist[] }>(),
+  'playlist:getVideos': method([v.string]).returns<{ videos: VideoMetadata[] }>(),
+  'playlist:delete': method([v.string], changesLibrary),
+
+  'tag:getAll': method([]).returns<{ tags: Tag[] }>(),
+  'tag:create': method([v.string], changesLibrary).returns<{ tag: Tag }>(),
+  'tag:rename': method([v.integer, v.string], changesLibrary),
+  'tag:delete': method([v.integer], changesLibrary),
+  'tag:assign': method([v.integer, v.array(v.string)], changesLibrary),
+  'tag:unassign': method([v.integer, v.array(v.string)], changesLibrary),
+
+  'collection:getAll': method([]).returns<{ collections: Collection[] }>(),
+  'collection:create': method([v.string, v.optional(v.string)], changesLibrary)
+    .returns<{ collection: Collection }>(),
+  'collection:update': method([v.integer, v.string, v.optional(v.string)], changesLibrary),
+  'collection:delete': method([v.integer], changesLibrary),
+  'collection:addVideos': method([v.integer, v.array(v.string)], changesLibrary),
+  'collection:removeVideos': method([v.integer, v.array(v.string)], changesLibrary),
+  'collection:reorder': method([v.integer, v.array(v.string)], changesLibrary),
+  'collection:getVideoIds': method([v.integer]).returns<{ videoIds: string[] }>(),
+
+  'watch:start': method([v.string]).returns<{ sessionId: number; resumePosition: number }>(),
+  'watch:saveProgress': method([v.string, v.integer, v.number, v.number, v.number])
+    .returns<{ progress: WatchProgress }>(),
+  'watch:setWatched': method([v.array(v.string), v.boolean], changesLibrary),
+  'watch:getContinueWatching': method([]).returns<{ videoIds: string[] }>(),
+  'watch:getUnwatched': method([]).returns<{ videoIds: string[] }>(),
+  'watch:getHistory': method([v.optional(v.integer)]).returns<{ history: WatchHistoryEntry[] }>(),
+  'watch:clearHistory': method([], changesLibrary),
+
+  'library:export': method([
+    v.oneOf('json', 'csv', 'opml'),
+    v.optional(v.object({ includeFiles: v.optional(v.boolean) }))
+  ]).returns<{ canceled?: boolean; result?: LibraryExportResult }>(),
+  'library:import': method([
+    v.optional(v.object({ dryRun: v.optional(v.boolean), filePath: v.optional(v.string) }))
+  ], changesLibrary).returns<{ canceled?: boolean; filePath?: string; report?: LibraryImportReport }>(),
+
+  'takeout:import': method([
+    v.optional(v.object({
+      history: v.optional(v.boolean),
+      playlists: v.optional(v.boolean),
+      sourcePath: v.optional(v.string)
+    }))
+  ], changesLibrary).returns<{ canceled?: boolean; report?: TakeoutImportReport }>(),
+  'takeout:cancel': method([]),
+
+  'storage:getStats': method([]).returns<{ stats: StorageStats }>(),
+  'storage:moveLibrary': method([], changesLibrary).returns<{ canceled?: boolean; result?: LibraryMoveResult }>(),
+
+  'integrity:scan': method([]).returns<{ report: IntegrityReport }>(),
+  'integrity:repair': method([integrityIssue, repairAction], changesLibrary),
+
+  'channel:subscribe': method([v.string, v.optional(channelRules)], changesLibrary).returns<{ channel: Channel }>(),
+  'channel:getAll': method([]).returns<{ channels: Channel[] }>(),
+  'channel:updateRules': method([v.string, channelRules], changesLibrary).returns<{ channel: Channel }>(),
+  'channel:unsubscribe': method([v.string], changesLibrary),
+  'channel:check': method([v.string]).returns<{ added: number }>(),
+
+  'settings:get': method([]).returns<{ settings: AppSettings }>(),
+  'settings:update': method([settingsUpdate]).returns<{ settings: AppSettings }>(),
+
+  'httpApi:getStatus': method([]).returns<{ status: ApiServerStatus }>(),
+  'httpApi:configure': method([v.object({ enabled: v.optional(v.boolean), port: v.optional(v.integer) })])
+    .returns<{ status: ApiServerStatus }>(),
+  'httpApi:regenerateToken': method([]).returns<{ status: ApiServerStatus }>(),
+  'httpApi:openSetupPage': method([]),
+
+  'system:checkYtDlp': method([]).returns<{ installed: boolean; message: string }>(),
+  'system:getDownloadsPath': method([]).returns<{ path: string }>()
+}
+
+/**
+ * Events sent from the main process to every window, with the window.api listener that receives them
+ */
+export const ipcEvents = {
+  'download:progress': event('video', 'onDownloadProgress').payload<{ videoId: string; progress: number }>(),
+  'download:complete': event('video', 'onDownloadComplete').payload<{ videoId: string; filePath: string }>(),
+  'download:error': event('video', 'onDownloadError').payload<{ videoId: string; error: string; code: string }>(),
+  'video:unavailable': event('video', 'onUnavailable')
+    .payload<{ video: VideoMetadata; status: AvailabilityStatus; reason?: string }>(),
+  'queue:updated': event('queue', 'onUpdated').payload<QueueStatus>(),
+  'takeout:progress': event('takeout', 'onProgress').payload<TakeoutImportReport>(),
+  'takeout:complete': event('takeout', 'onComplete').payload<TakeoutImportReport>(),
+  'storage:moveProgress': event('storage', 'onMoveProgress').payload<LibraryMoveProgress>(),
+  'channel:newVideos': event('channel', 'onNewVideos')
+    .payload<{ channelId: string; channelName: string; videos: VideoMetadata[] }>(),
+  /** Another window changed the library through the named channel */
+  'library:changed': event('library', 'onChanged').payload<{ channel: IpcChannel }>()
+}
+
+// Types derived from the contract
+
+export type IpcChannel = keyof typeof ipcContract
+
+export type IpcEventChannel = keyof typeof ipcEvents
+
+type ArgsOf<A extends readonly unknown[]> = A extends readonly [infer First, ...infer Rest]
+  ? First extends { optional: true }
+    ? [Infer<First>?, ...ArgsOf<Rest>]
+    : [Infer<First>, ...ArgsOf<Rest>]
+  : []
+
+/** Arguments of an invoke channel, trailing optional ones included */
+export type IpcArgs<C extends IpcChannel> = ArgsOf<(typeof ipcContract)[C]['args']>
+
+/** Fields a handler returns on success */
+export type IpcResult<C extends IpcChannel> =
+  (typeof ipcContract)[C] extends IpcMethod<ArgValidators, infer R> ? R : never
+
+export type IpcPayload<E extends IpcEventChannel> =
+  (typeof ipcEvents)[E] extends IpcEvent<infer P> ? P : never
+
+type Namespace<K> = K extends `${infer N}:${string}` ? N : never
+
+type EventNamespace<E extends IpcEventChannel> = (typeof ipcEvents)[E]['api'][0]
+
+type NamespaceMethods<N extends string> = {
+  [C in IpcChannel as C extends `${N}:${infer M}` ? M : never]: (...args: IpcArgs<C>) => Promise<ApiResponse<IpcResult<C>>>
+}
+
+/** Removes the listener it was returned for */
+export type Unsubscribe = () => void
+
+type NamespaceEvents<N extends string> = {
+  [E in IpcEventChannel as EventNamespace<E> extends N ? (typeof ipcEvents)[E]['api'][1] : never]:
+    (callback: (payload: IpcPayload<E>) => void) => Unsubscribe
+}
+
+/** The `window.api` object built by the preload */
+export type RendererApi = {
+  [N in Namespace<IpcChannel> | EventNamespace<IpcEventChannel>]: Simplify<NamespaceMethods<N> & NamespaceEvents<N>>
+}
@@ -0,0 +1,20 @@
+/**
+ * Command line mode detection
+ *
+ * `Tube Crawler --cli <command>` (or `bin/tube-crawler.js <command>`) runs a
+ * command against the library without opening a window. main.ts imports this
+ * module before any service, so that in command line mode the services' log
+ * output already goes to stderr (only with --verbose) and stdout carries
+ * nothing but the command's output.
+ */
+
+const cliIndex = process.argv.indexOf('--cli')
+
+/** Arguments after --cli, or null when running the app normally */
+export const cliArgs: string[] | null = cliIndex === -1 ? null : process.argv.slice(cliIndex + 1)
+
+if (cliArgs) {
+  const log = cliArgs.includes('--verbose') ? console.error : () => {}
+  console.log = log
+  console.info = log
+}
@@ -0,0 +1,437 @@
+import { databaseService, type DownloadStatus, type Video } from './services/database.service.js'
+import { queueService } from './services/queue.service.js'
+import { settingsService } from './services/settings.service.js'
+import { playlistService } from './services/playlist.service.js'
+import { channelService, type NewVideosEvent } from './services/channel.service.js'
+import { metadataService } from './services/metadata.service.js'
+import { thumbnailService } from './services/thumbnail.service.js'
+import { subtitleService } from './services/subtitle.service.js'
+import { integrityService } from './services/integrity.service.js'
+import { videoService } from './services/video.service.js'
+import { lockService, LockError } from './services/lock.service.js'
+import { ApiError } from '../ipc-contract.js'
+
+const USAGE = `Usage: tube-crawler <command> [options]
+
+Commands:
+  add <url...>                Add videos to the library
+  import-playlist <url>       Import a playlist; with --download, download its videos too
+  list [--status <status>]    List the library
+  search <query>              Search titles, descriptions and transcripts
+  download [<videoId...>]     Queue the given videos, then download everything queued
+  maintain                    Check channels for new uploads, refresh metadata, cache
+                              thumbnails, index transcripts and check the library files
+                              (--channels, --metadata, --thumbnails, --transcripts and
+                              --integrity run only the named jobs)
+
+Options:
+  --json                      Print JSON instead of text
+  --verbose                   Also print the app's log (to stderr)
+`
+
+const EXIT_OK = 0
+const EXIT_FAILED = 1
+const EXIT_USAGE = 2
+/** Another process holds the library lock; worth retrying later */
+const EXIT_LOCKED = 75
+
+const DOWNLOAD_STATUSES: DownloadStatus[] = ['pending', 'queued', 'downloading', 'paused', 'completed', 'failed']
+const MAINTENANCE_JOBS = ['channels', 'metadata', 'thumbnails', 'transcripts', 'integrity'] as const
+// Options that take a value; every other --option is a flag
+const VALUE_OPTIONS = ['status']
+// Options every command accepts
+const GLOBAL_OPTIONS = ['json', 'verbose', 'help']
+// Videos refreshed per maintenance run, to stay clear of YouTube's rate limits
+const METADATA_BATCH_SIZE = 200
+
+class UsageError extends Error {}
+
+interface ParsedArgs {
+  command: string
+  positional: string[]
+  flags: Set<string>
+  values: Map<string, string>
+}
+
+interface Command {
+  /** Runs on a read-only database without taking the library lock */
+  readonly?: boolean
+  /** Options the command accepts besides the global ones */
+  options?: readonly string[]
+  run(args: ParsedArgs): Promise<number>
+}
+
+interface DownloadSummary {
+  completed: string[]
+  failed: { videoId: string; error: string; code: string }[]
+}
+
+function parseArgs(args: string[]): ParsedArgs {
+  const parsed: ParsedArgs = { command: '', positional: [], flags: new Set(), values: new Map() }
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i]
+    if (arg.startsWith('--')) {
+      const [name, inlineValue] = arg.slice(2).split(/=(.*)/s)
+      if (VALUE_OPTIONS.includes(name)) {
+        const value = inlineValue ?? args[++i]
+        if (value === undefined) {
+          throw new UsageError(`--${name} needs a value`)
+        }
+        parsed.values.set(name, value)
+      } else {
+        parsed.flags.add(name)
+      }
+    } else if (!parsed.command) {
+      parsed.command = arg
+    } else {
+      parsed.positional.push(arg)
+    }
+  }
+
+  return parsed
+}
+
+/**
+ * Refuse options the command doesn't know, so a typo isn't silently ignored
+ */
+function checkOptions(parsed: ParsedArgs, command: Command) {
+  for (const name of [...parsed.flags, ...parsed.values.keys()]) {
+    if (!GLOBAL_OPTIONS.includes(name) && !command.options?.includes(name)) {
+      throw new UsageError(`Unknown option for ${parsed.command}: --${name}`)
+    }
+  }
+}
+
+function print(text = '') {
+  process.stdout.write(`${text}\n`)
+}
+
+function printJson(value: unknown) {
+  print(JSON.stringify(value, null, 2))
+}
+
+function printTable(headers: string[], rows: string[][]) {
+  const widths = headers.map((header, i) => Math.max(header.length, ...rows.map(row => row[i].length)))
+  for (const row of [headers, ...rows]) {
+    // The last column isn't padded, so long titles don't leave trailing spaces
+    print(row.map((cell, i) => (i < row.length - 1 ? cell.padEnd(widths[i]) : cell)).join('  '))
+  }
+}
+
+function formatDuration(seconds: number): string {
+  const h = Math.floor(seconds / 3600)
+  const m = Math.floor((seconds % 3600) / 60)
+  const s = String(Math.floor(seconds % 60)).padStart(2, '0')
+  return h > 0 ? `${h}:${String(m).padStart(2, '0')}:${s}` : `${m}:${s}`
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error)
+}
+
+function toCliVideo(video: Video) {
+  return {
+    videoId: video.videoId,
+    url: video.url,
+    title: video.title,
+    channel: video.channelName,
+    duration: video.duration,
+    status: video.downloadStatus,
+    filePath: video.filePath || undefined,
+    fileSize: video.fileSize || undefined,
+    uploadDate: video.uploadDate,
+    addedAt: video.createdAt
+  }
+}
+
+function printVideos(videos: Video[], json: boolean) {
+  if (json) {
+    printJson(videos.map(toCliVideo))
+    return
+  }
+  printTable(
+    ['ID', 'STATUS', 'LENGTH', 'CHANNEL', 'TITLE'],
+    videos.map(video => [video.videoId, video.downloadStatus, formatDuration(video.duration), video.channelName, video.title])
+  )
+}
+
+/**
+ * Start the download queue and wait until every queued job has finished or failed
+ */
+function drainQueue(showProgress: boolean): Promise<DownloadSummary> {
+  const summary: DownloadSummary = { completed: [], failed: [] }
+
+  return new Promise(resolve => {
+    const onProgress = ({ videoId, progress }: { videoId: string; progress: number }) => {
+      process.stderr.write(`\r${videoId} ${progress}%  `)
+    }
+    const onComplete = ({ videoId, filePath }: { videoId: string; filePath: string }) => {
+      summary.completed.push(videoId)
+      if (showProgress) {
+        process.stderr.write(`\r${videoId} done: ${filePath}\n`)
+      }
+    }
+    const onFailed = (failure: { videoId: string; error: string; code: string }) => {
+      summary.failed.push(failure)
+      if (showProgress) {
+        process.stderr.write(`\r${failure.videoId} failed: ${failure.error}\n`)
+      }
+    }
+    const onUpdated = () => {
+      if (queueService.getStatus().jobs.length > 0) {
+        return
+      }
+      queueService.off('progress', onProgress)
+      queueService.off('complete', onComplete)
+      queueService.off('failed', onFailed)
+      queueService.off('updated', onUpdated)
+      resolve(summary)
+    }
+
+    if (showProgress) {
+      queueService.on('progress', onProgress)
+    }
+    queueService.on('complete', onComplete)
+    queueService.on('failed', onFailed)
+    queueService.on('updated', onUpdated)
+
+    queueService.initialize()
+    onUpdated()
+  })
+}
+
+/**
+ * Download everything in the queue, unless the queue was paused in the app
+ */
+async function runDownloads(json: boolean): Promise<DownloadSummary | null> {
+  if (settingsService.get('queuePaused') && queueService.getStatus().jobs.length > 0) {
+    process.stderr.write('The download queue is paused; resume it in Tube Crawler to download\n')
+    return null
+  }
+  return drainQueue(!json && process.stderr.isTTY)
+}
+
+const commands: Record<string, Command> = {
+  add: {
+    async run({ positional, flags }) {
+      if (positional.length === 0) {
+        throw new UsageError('add needs at least one URL')
+      }
+
+      const results: { url: string; videoId?: string; title?: string; status: 'added' | 'exists' | 'failed'; error?: string }[] = []
+      for (const url of positional) {
+        try {
+          const video = await videoService.addByUrl(url)
+          results.push({ url, videoId: video.videoId, title: video.title, status: 'added' })
+        } catch (error) {
+          // Adding a video that's already there counts as success, so scripts can re-run
+          const exists = error instanceof ApiError && error.code === 'CONFLICT'
+          results.push({ url, status: exists ? 'exists' : 'failed', error: errorMessage(error) })
+        }
+      }
+      await thumbnailService.whenIdle()
+
+      if (flags.has('json')) {
+        printJson(results)
+      } else {
+        for (const result of results) {
+          print(result.status === 'added' ? `Added ${result.videoId}  ${result.title}` : `${result.url}: ${result.error}`)
+        }
+      }
+      return results.some(result => result.status === 'failed') ? EXIT_FAILED : EXIT_OK
+    }
+  },
+
+  'import-playlist': {
+    options: ['download'],
+    async run({ positional, flags }) {
+      if (positional.length !== 1) {
+        throw new UsageError('import-playlist needs a playlist URL')
+      }
+
+      const download = flags.has('download')
+      const result = await playlistService.importPlaylist(positional[0], { download })
+      if (!flags.has('json')) {
+        print(`Imported "${result.playlist.title}": ${result.added} added, ${result.skipped} already in the library`)
+      }
+
+      const downloads = download ? await runDownloads(flags.has('json')) : undefined
+      await thumbnailService.whenIdle()
+
+      if (flags.has('json')) {
+        printJson({ ...result, downloads })
+      } else if (downloads) {
+        print(`Downloaded ${downloads.completed.length}, failed ${downloads.failed.length}`)
+      }
+      return downloads === null || (downloads && downloads.failed.length > 0) ? EXIT_FAILED : EXIT_OK
+    }
+  },
+
+  list: {
+    readonly: true,
+    options: ['status'],
+    async run({ values, flags }) {
+      const status = values.get('status')
+      if (status && !DOWNLOAD_STATUSES.includes(status as DownloadStatus)) {
+        throw new UsageError(`--status must be one of ${DOWNLOAD_STATUSES.join(', ')}`)
+      }
+
+      const videos = databaseService.getAllVideos().filter(video => !status || video.downloadStatus === status)
+      printVideos(videos, flags.has('json'))
+      return EXIT_OK
+    }
+  },
+
+  search: {
+    readonly: true,
+    async run({ positional, flags }) {
+      const query = positional.join(' ').trim()
+      if (!query) {
+        throw new UsageError('search needs a query')
+      }
+
+      printVideos(databaseService.searchVideos(query).map(result => result.video), flags.has('json'))
+      return EXIT_OK
+    }
+  },
+
+  download: {
+    async run({ positional, flags }) {
+      for (const videoId of positional) {
+        const video = databaseService.getVideoByVideoId(videoId)
+        if (!video) {
+          throw new Error(`Video not in the library: ${videoId}`)
+        }
+        if (video.downloadStatus !== 'completed') {
+          queueService.enqueue(videoId, video.url)
+        }
+      }
+
+      const summary = await runDownloads(flags.has('json'))
+      if (!summary) {
+        return EXIT_FAILED
+      }
+
+      if (flags.has('json')) {
+        printJson(summary)
+      } else {
+        print(`Downloaded ${summary.completed.length}, failed ${summary.failed.length}`)
+      }
+      return summary.failed.length > 0 ? EXIT_FAILED : EXIT_OK
+    }
+  },
+
+  maintain: {
+    options: MAINTENANCE_JOBS,
+    async run({ flags }) {
+      const selected = MAINTENANCE_JOBS.filter(job => flags.has(job))
+      const jobs = selected.length > 0 ? selected : MAINTENANCE_JOBS
+      const report: Record<string, unknown> = {}
+      const lines: string[] = []
+
+      if (jobs.includes('channels')) {
+        let newVideos = 0
+        const onNewVideos = ({ videos }: NewVideosEvent) => (newVideos += videos.length)
+        channelService.on('newVideos', onNewVideos)
+        await channelService.checkDueChannels()
+        channelService.off('newVideos', onNewVideos)
+
+        const queued = queueService.getStatus().jobs.length
+        report.channels = { newVideos, queued }
+        lines.push(`channels: ${newVideos} new videos${queued ? ` (${queued} downloads queued, run "download")` : ''}`)
+      }
+
+      if (jobs.includes('metadata')) {
+        const due = databaseService.getVideosDueForRefresh(
+          settingsService.get('metadataRefreshIntervalHours'),
+          METADATA_BATCH_SIZE
+        )
+        const result = await metadataService.refreshVideos(due.map(video => video.videoId))
+        report.metadata = result
+        lines.push(`metadata: ${result.refreshed} refreshed, ${result.failed} failed`)
+      }
+
+      if (jobs.includes('thumbnails')) {
+        const missing = databaseService.getVideosWithoutThumbnail().length
+        thumbnailService.backfill()
+        await thumbnailService.whenIdle()
+        const cached = missing - databaseService.getVideosWithoutThumbnail().length
+        report.thumbnails = { missing, cached }
+        lines.push(`thumbnails: ${cached} of ${missing} cached`)
+      }
+
+      if (jobs.includes('transcripts')) {
+        const unindexed = databaseService.getUnindexedSubtitles().length
+        await subtitleService.indexMissingTranscripts()
+        const indexed = unindexed - databaseService.getUnindexedSubtitles().length
+        report.transcripts = { unindexed, indexed }
+        lines.push(`transcripts: ${indexed} of ${unindexed} indexed`)
+      }
+
+      if (jobs.includes('integrity')) {
+        const { videosChecked, filesChecked, issues } = await integrityService.scan()
+        report.integrity = { videosChecked, filesChecked, issues }
+        lines.push(`integrity: ${issues.length} problems in ${videosChecked} videos and ${filesChecked} files`)
+        for (const issue of issues) {
+          lines.push(`  ${issue.kind}: ${issue.title || issue.filePath || issue.videoId}`)
+        }
+      }
+
+      if (flags.has('json')) {
+        printJson(report)
+      } else {
+        lines.forEach(line => print(line))
+      }
+      return EXIT_OK
+    }
+  }
+}
+
+/**
+ * Run a command line invocation and return the process exit code
+ * Commands that change the library hold the library lock, so they refuse to
+ * run while the app is open (and the app refuses to start meanwhile);
+ * list and search only read and work alongside the app.
+ */
+export async function runCli(args: string[]): Promise<number> {
+  let parsed: ParsedArgs
+  try {
+    parsed = parseArgs(args)
+  } catch (error) {
+    process.stderr.write(`${errorMessage(error)}\n\n${USAGE}`)
+    return EXIT_USAGE
+  }
+
+  if (!parsed.command || parsed.command === 'help' || parsed.flags.has('help')) {
+    print(USAGE)
+    return parsed.command ? EXIT_OK : EXIT_USAGE
+  }
+
+  const command = commands[parsed.command]
+  if (!command) {
+    process.stderr.write(`Unknown command: ${parsed.command}\n\n${USAGE}`)
+    return EXIT_USAGE
+  }
+
+  try {
+    checkOptions(parsed, command)
+    if (command.readonly) {
+      databaseService.initialize({ readonly: true })
+    } else {
+      lockService.acquire('cli')
+      databaseService.initialize()
+    }
+    return await command.run(parsed)
+  } catch (error) {
+    if (error instanceof UsageError) {
+      process.stderr.write(`${error.message}\n\n${USAGE}`)
+      return EXIT_USAGE
+    }
+    process.stderr.write(`tube-crawler: ${errorMessage(error)}\n`)
+    return error instanceof LockError ? EXIT_LOCKED : EXIT_FAILED
+  } finally {
+    databaseService.close()
+    lockService.release()
+  }
+}
@@ -0,0 +1,392 @@
+import http from 'http'
+import crypto from 'crypto'
+import { app } from 'electron'
+import { ApiError, type ApiErrorCode, type IpcArgs, type IpcChannel } from '../ipc-contract.js'
+import { invoke } from './ipc.js'
+import { databaseService } from './services/database.service.js'
+import { settingsService } from './services/settings.service.js'
+
+const HOST = '127.0.0.1'
+const MAX_BODY_BYTES = 64 * 1024
+
+export interface ApiServerStatus {
+  enabled: boolean
+  /** Listening right now; false while disabled or when the port couldn't be bound */
+  running: boolean
+  port: number
+  url: string
+  token: string
+  /** Why the server isn't running although it's enabled */
+  error?: string
+}
+
+interface Route {
+  method: 'GET' | 'POST'
+  pattern: RegExp
+  /** Answered without a token (the pages read it from their URL fragment) */
+  public?: boolean
+  run(match: RegExpMatchArray, url: URL, body: Record<string, unknown>): Promise<Reply>
+}
+
+interface Reply {
+  status: number
+  contentType: string
+  body: string
+}
+
+function statusFor(code: ApiErrorCode): number {
+  switch (code) {
+    case 'INVALID_ARGUMENT':
+      return 400
+    case 'UNAUTHORIZED':
+      return 401
+    case 'NOT_FOUND':
+      return 404
+    case 'CONFLICT':
+      return 409
+    default:
+      return 500
+  }
+}
+
+function json<R extends { success: boolean; code?: ApiErrorCode }>(response: R): Reply {
+  return {
+    status: response.code ? statusFor(response.code) : 200,
+    contentType: 'application/json; charset=utf-8',
+    body: JSON.stringify(response)
+  }
+}
+
+function html(body: string): Reply {
+  return { status: 200, contentType: 'text/html; charset=utf-8', body }
+}
+
+/**
+ * Call an IPC handler with the same validation and library:changed broadcast as the renderer's calls
+ */
+async function call<C extends IpcChannel>(channel: C, ...args: IpcArgs<C>): Promise<Reply> {
+  return json(await invoke(channel, args))
+}
+
+function readBody(request: http.IncomingMessage): Promise<Record<string, unknown>> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = []
+    let size = 0
+    request.on('data', (chunk: Buffer) => {
+      size += chunk.length
+      if (size > MAX_BODY_BYTES) {
+        reject(new ApiError('INVALID_ARGUMENT', 'Request body too large'))
+        request.destroy()
+        return
+      }
+      chunks.push(chunk)
+    })
+    request.on('end', () => {
+      if (size === 0) {
+        resolve({})
+        return
+      }
+      try {
+        const body = JSON.parse(Buffer.concat(chunks).toString('utf-8'))
+        if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+          throw new Error()
+        }
+        resolve(body)
+      } catch {
+        reject(new ApiError('INVALID_ARGUMENT', 'Request body must be a JSON object'))
+      }
+    })
+    request.on('error', reject)
+  })
+}
+
+function tokensMatch(given: string, expected: string): boolean {
+  const a = Buffer.from(given)
+  const b = Buffer.from(expected)
+  return a.length === b.length && crypto.timingSafeEqual(a, b)
+}
+
+/**
+ * Page the bookmarklet opens in a small window: it reads the token from the
+ * URL fragment (which isn't sent to the server or left in its logs) and posts
+ * the video to /api/videos.
+ */
+function addPage(): string {
+  return `<!doctype html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>Tube Crawler</title>
+<style>
+  body { margin: 0; padding: 24px; background: #1a1a1a; color: #ddd; font: 14px -apple-system, BlinkMacSystemFont, sans-serif; }
+  .error { color: #f87171; }
+</style>
+</head>
+<body>
+<p id="message">Adding to Tube Crawler…</p>
+<script>
+  const params = new URLSearchParams(location.search)
+  const token = decodeURIComponent(location.hash.slice(1))
+  const message = document.getElementById('message')
+
+  fetch('/api/videos', {
+    method: 'POST',
+    headers: { 'Authorization': 'Bearer ' + token, 'Content-Type': 'application/json' },
+    body: JSON.stringify({ url: params.get('url'), download: params.get('download') === '1' })
+  })
+    .then(response => response.json())
+    .then(result => {
+      if (result.success) {
+        message.textContent = (result.job ? 'Downloading: ' : 'Added: ') + result.video.title
+        setTimeout(() => window.close(), 1500)
+      } else {
+        message.textContent = result.code === 'CONFLICT' ? 'Already in the library' : result.error
+        message.className = result.code === 'CONFLICT' ? '' : 'error'
+      }
+    })
+    .catch(() => {
+      message.textContent = 'Tube Crawler is not responding'
+      message.className = 'error'
+    })
+</script>
+</body>
+</html>`
+}
+
+/**
+ * Page with the bookmarklets to drag to the browser's bookmarks bar; they
+ * are built in the page from the token in the URL fragment.
+ */
+function setupPage(): string {
+  return `<!doctype html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>Tube Crawler bookmarklets</title>
+<style>
+  body { max-width: 560px; margin: 40px auto; padding: 0 20px; background: #1a1a1a; color: #ddd; font: 15px -apple-system, BlinkMacSystemFont, sans-serif; }
+  a.bookmarklet { display: inline-block; margin: 8px 12px 8px 0; padding: 8px 14px; border-radius: 6px; background: #3b82f6; color: #fff; text-decoration: none; }
+  code { color: #aaa; }
+</style>
+</head>
+<body>
+<h1>Tube Crawler</h1>
+<p>Drag these to your bookmarks bar, then click one on a YouTube video page:</p>
+<p>
+  <a class="bookmarklet" id="add">+ Tube Crawler</a>
+  <a class="bookmarklet" id="download">⬇ Tube Crawler</a>
+</p>
+<p>Scripts can use the same token: <code>Authorization: Bearer &lt;token&gt;</code></p>
+<script>
+  const token = decodeURIComponent(location.hash.slice(1))
+  for (const [id, download] of [['add', false], ['download', true]]) {
+    const target = location.origin + '/add?' + (download ? 'download=1&' : '') + 'url='
+    document.getElementById(id).href = 'javascript:void window.open(' + JSON.stringify(target) +
+      '+encodeURIComponent(location.href)+' + JSON.stringify('#' + encodeURIComponent(token)) +
+      ',"tube-crawler","width=420,height=160")'
+  }
+</script>
+</body>
+</html>`
+}
+
+const routes: Route[] = [
+  {
+    method: 'GET',
+    pattern: /^\/add$/,
+    public: true,
+    run: async () => html(addPage())
+  },
+  {
+    method: 'GET',
+    pattern: /^\/setup$/,
+    public: true,
+    run: async () => html(setupPage())
+  },
+  {
+    method: 'GET',
+    pattern: /^\/api\/status$/,
+    run: async () => {
+      const queue = await invoke('queue:getStatus', [])
+      if (!queue.success) {
+        return json(queue)
+      }
+      return json({ success: true, version: app.getVersion(), videos: databaseService.getAllVideos().length, queue: queue.status })
+    }
+  },
+  {
+    // ?q= searches the library like the search bar, without it every video is listed
+    method: 'GET',
+    pattern: /^\/api\/videos$/,
+    run: async (_match, url) => {
+      const query = url.searchParams.get('q')?.trim()
+      return query ? call('video:search', query) : call('video:getAll')
+    }
+  },
+  {
+    // { url, download? } adds a video and optionally queues its download with the default options
+    method: 'POST',
+    pattern: /^\/api\/videos$/,
+    run: async (_match, _url, body) => {
+      const added = await invoke('video:add', [body.url])
+      if (!added.success || body.download !== true) {
+        return json(added)
+      }
+      const queued = await invoke('video:download', [added.video.id, added.video.url])
+      return json(queued.success ? { ...added, job: queued.job } : queued)
+    }
+  },
+  {
+    // { options? } queues a library video's download
+    method: 'POST',
+    pattern: /^\/api\/videos\/([\w-]+)\/download$/,
+    run: async (match, _url, body) => {
+      const video = databaseService.getVideoByVideoId(match[1])
+      if (!video) {
+        throw new ApiError('NOT_FOUND', 'Video not found')
+      }
+      return json(await invoke('video:download', [video.videoId, video.url, body.options]))
+    }
+  }
+]
+
+/**
+ * Opt-in HTTP/JSON API on 127.0.0.1 for scripts and the browser bookmarklet
+ *
+ * Routes call the IPC handlers through invoke(), so arguments are validated
+ * and responses shaped exactly like window.api's. Every /api request needs the
+ * token from settings as a bearer token; requests whose Host isn't the local
+ * address are refused, so web pages can't reach the API through DNS rebinding.
+ */
+class HttpApiServer {
+  private server: http.Server | null = null
+  private error: string | undefined
+
+  /**
+   * Start or stop the server to match the settings
+   */
+  async applySettings() {
+    await this.stop()
+    this.error = undefined
+    if (settingsService.get('apiServerEnabled')) {
+      await this.start()
+    }
+  }
+
+  /**
+   * Enable or disable the API, or move it to another port
+   */
+  async configure(options: { enabled?: boolean; port?: number }): Promise<ApiServerStatus> {
+    if (options.port !== undefined && (options.port < 1024 || options.port > 65535)) {
+      throw new ApiError('INVALID_ARGUMENT', 'Port must be between 1024 and 65535')
+    }
+    settingsService.update({
+      apiServerEnabled: options.enabled ?? settingsService.get('apiServerEnabled'),
+      apiServerPort: options.port ?? settingsService.get('apiServerPort')
+    })
+    await this.applySettings()
+    return this.getStatus()
+  }
+
+  /**
+   * Replace the token; bookmarklets made with the old one stop working
+   */
+  regenerateToken(): ApiServerStatus {
+    settingsService.update({ apiToken: crypto.randomBytes(24).toString('hex') })
+    return this.getStatus()
+  }
+
+  getStatus(): ApiServerStatus {
+    const port = settingsService.get('apiServerPort')
+    return {
+      enabled: settingsService.get('apiServerEnabled'),
+      running: this.server?.listening ?? false,
+      port,
+      url: `http://${HOST}:${port}`,
+      token: this.getToken(),
+      error: this.error
+    }
+  }
+
+  async stop() {
+    const server = this.server
+    if (!server) {
+      return
+    }
+    this.server = null
+    server.closeAllConnections()
+    await new Promise(resolve => server.close(resolve))
+    console.log('HTTP API stopped')
+  }
+
+  private getToken(): string {
+    if (!settingsService.get('apiToken')) {
+      this.regenerateToken()
+    }
+    return settingsService.get('apiToken')
+  }
+
+  private start(): Promise<void> {
+    const port = settingsService.get('apiServerPort')
+    const server = http.createServer((request, response) => this.respond(request, response, port))
+
+    return new Promise(resolve => {
+      // Kept for the server's lifetime: an unhandled 'error' would crash the main process
+      server.on('error', (error: NodeJS.ErrnoException) => {
+        this.error = error.code === 'EADDRINUSE' ? `Port ${port} is already in use` : error.message
+        console.error('HTTP API error:', error)
+        if (this.server === server) {
+          this.stop().catch(stopError => console.error('Failed to stop HTTP API:', stopError))
+        }
+        resolve()
+      })
+      server.listen(port, HOST, () => {
+        this.server = server
+        console.log(`HTTP API listening on http://${HOST}:${port}`)
+        resolve()
+      })
+    })
+  }
+
+  private async respond(request: http.IncomingMessage, response: http.ServerResponse, port: number) {
+    let reply: Reply
+    try {
+      reply = await this.route(request, port)
+    } catch (error) {
+      const code = error instanceof ApiError ? error.code : 'INTERNAL'
+      reply = json({ success: false, error: error instanceof Error ? error.message : String(error), code })
+    }
+
+    response.writeHead(reply.status, {
+      'Content-Type': reply.contentType,
+      'Cache-Control': 'no-store',
+      'X-Content-Type-Options': 'nosniff'
+    })
+    response.end(reply.body)
+  }
+
+  private async route(request: http.IncomingMessage, port: number): Promise<Reply> {
+    if (request.headers.host !== `${HOST}:${port}` && request.headers.host !== `localhost:${port}`) {
+      throw new ApiError('UNAUTHORIZED', 'Unexpected Host header')
+    }
+
+    const url = new URL(request.url || '/', `http://${HOST}:${port}`)
+    const candidates = routes.filter(route => route.pattern.test(url.pathname))
+    const route = candidates.find(candidate => candidate.method === request.method)
+    if (!route) {
+      throw new ApiError(candidates.length > 0 ? 'INVALID_ARGUMENT' : 'NOT_FOUND', `${request.method} ${url.pathname} is not supported`)
+    }
+
+    if (!route.public) {
+      const token = request.headers.authorization?.match(/^Bearer (.+)$/)?.[1]
+      if (!token || !tokensMatch(token, this.getToken())) {
+        throw new ApiError('UNAUTHORIZED', 'Missing or invalid token')
+      }
+    }
+
+    const body = request.method === 'POST' ? await readBody(request) : {}
+    return route.run(url.pathname.match(route.pattern)!, url, body)
+  }
+}
+
+export const httpApiServer = new HttpApiServer()
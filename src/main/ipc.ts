@@ -0,0 +1,87 @@
+import { BrowserWindow, ipcMain, type WebContents } from 'electron'
+import {
+  ApiError,
+  ipcContract,
+  type ApiErrorCode,
+  type ApiResponse,
+  type IpcArgs,
+  type IpcChannel,
+  type IpcEventChannel,
+  type IpcMethod,
+  type IpcPayload,
+  type IpcResult,
+  type Validator
+} from '../ipc-contract.js'
+import { DownloadError } from './services/download-error.js'
+
+type Handler<C extends IpcChannel> = (...args: IpcArgs<C>) => IpcResult<C> | Promise<IpcResult<C>>
+
+function errorCode(error: unknown): ApiErrorCode {
+  if (error instanceof ApiError || error instanceof DownloadError) {
+    return error.code
+  }
+  return 'INTERNAL'
+}
+
+const handlers = new Map<IpcChannel, (...args: unknown[]) => unknown>()
+
+/**
+ * Register the handler of an invoke channel declared in the IPC contract
+ *
+ * Calls from the renderer go through invoke(), like those from the local HTTP API.
+ */
+export function handle<C extends IpcChannel>(channel: C, handler: Handler<C>) {
+  handlers.set(channel, handler as (...args: unknown[]) => unknown)
+  ipcMain.handle(channel, (event, ...rawArgs: unknown[]) => invoke(channel, rawArgs, { sender: event.sender }))
+}
+
+/**
+ * Call the handler registered for a channel
+ *
+ * Arguments are validated against the contract before the handler runs. The
+ * handler returns only its result fields; they are sent as `{ success: true, ...result }`,
+ * and anything it throws as `{ success: false, error, code }`. After a call to a
+ * channel marked changesLibrary, the windows other than the sender are sent 'library:changed'.
+ */
+export async function invoke<C extends IpcChannel>(
+  channel: C,
+  rawArgs: unknown[],
+  options: { sender?: WebContents } = {}
+): Promise<ApiResponse<IpcResult<C>>> {
+  const definition: IpcMethod<readonly Validator<unknown>[], unknown> = ipcContract[channel]
+
+  try {
+    const handler = handlers.get(channel)
+    if (!handler) {
+      throw new Error(`No handler registered for ${channel}`)
+    }
+    const args = definition.args.map((validate, i) => validate(rawArgs[i], `${channel} argument ${i + 1}`))
+    const result = await handler(...args)
+    if (definition.changesLibrary) {
+      broadcast('library:changed', { channel }, { except: options.sender })
+    }
+    return { success: true, ...(result as object) } as ApiResponse<IpcResult<C>>
+  } catch (error) {
+    console.error(`Error handling ${channel}:`, error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+      code: errorCode(error)
+    } as ApiResponse<IpcResult<C>>
+  }
+}
+
+/**
+ * Send an event declared in the IPC contract to every open window
+ */
+export function broadcast<E extends IpcEventChannel>(
+  channel: E,
+  payload: IpcPayload<E>,
+  options: { except?: WebContents } = {}
+) {
+  for (const window of BrowserWindow.getAllWindows()) {
+    if (!window.isDestroyed() && window.webContents !== options.except) {
+      window.webContents.send(channel, payload)
+    }
+  }
+}
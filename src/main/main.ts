@@ -1,37 +1,89 @@
-import { app, BrowserWindow, ipcMain, protocol } from 'electron'
+// Must come first: in command line mode it silences the services' logging before they load
+import { cliArgs } from './cli-args.js'
+import { app, BrowserWindow, dialog, protocol, shell } from 'electron'
 import path from 'path'
 import fs from 'fs'
+import { Readable } from 'stream'
 import { fileURLToPath } from 'url'
 import { dirname } from 'path'
-import { databaseService } from './services/database.service.js'
+import { databaseService, type Video } from './services/database.service.js'
+import { MigrationError } from './services/migrations.js'
+import { subtitleService } from './services/subtitle.service.js'
+import { thumbnailService } from './services/thumbnail.service.js'
 import { downloadService } from './services/download.service.js'
 import { youtubeService } from './services/youtube.service.js'
+import { queueService } from './services/queue.service.js'
+import { formatService } from './services/format.service.js'
+import { settingsService } from './services/settings.service.js'
+import { playlistService } from './services/playlist.service.js'
+import { channelService, type NewVideosEvent } from './services/channel.service.js'
+import { metadataService, type VideoUnavailableEvent } from './services/metadata.service.js'
+import { videoService } from './services/video.service.js'
+import { libraryService } from './services/library.service.js'
+import { takeoutService } from './services/takeout.service.js'
+import { storageService } from './services/storage.service.js'
+import { integrityService } from './services/integrity.service.js'
+import { lockService, LockError } from './services/lock.service.js'
+import { getMimeType, parseRangeHeader, resolveTubePath } from './services/tube-protocol.js'
+import { ApiError } from '../ipc-contract.js'
+import { broadcast, handle } from './ipc.js'
+import { runCli } from './cli.js'
+import { httpApiServer } from './http-api.js'
 
 const __filename = fileURLToPath(import.meta.url)
 const __dirname = dirname(__filename)
 
 let mainWindow: BrowserWindow | null = null
 
+// Subtitle <track> elements are loaded with CORS, which custom schemes only allow when privileged
+protocol.registerSchemesAsPrivileged([
+  { scheme: 'tube', privileges: { secure: true, supportFetchAPI: true, corsEnabled: true, stream: true } }
+])
+
 /**
  * Register custom protocol for serving local video files
- * This allows secure access to videos without disabling webSecurity
+ * This allows secure access to videos without disabling webSecurity.
+ * Range requests are answered with 206 and only the requested bytes, so the
+ * player can seek in large files without reading them from the start.
  */
 function registerVideoProtocol() {
-  protocol.registerFileProtocol('tube', (request, callback) => {
-    // Extract file path from tube://video/{videoId}.mp4
-    const url = request.url.substr(7) // Remove 'tube://'
-    const videoPath = path.join(downloadService.getDownloadsPath(), url)
-
-    console.log('📺 Custom protocol request:', request.url)
-    console.log('📺 Serving file:', videoPath)
-
-    // Verify file exists and is within downloads directory
-    if (fs.existsSync(videoPath) && videoPath.startsWith(downloadService.getDownloadsPath())) {
-      callback({ path: videoPath })
-    } else {
-      console.error('📺 File not found or unauthorized:', videoPath)
-      callback({ error: -6 }) // FILE_NOT_FOUND
+  protocol.handle('tube', async (request) => {
+    const filePath = resolveTubePath(request.url, {
+      downloads: downloadService.getDownloadsPath(),
+      thumbnails: thumbnailService.getThumbnailsPath()
+    })
+    if (!filePath) {
+      console.error('📺 Refused protocol request:', request.url)
+      return new Response(null, { status: 403 })
+    }
+
+    const stat = await fs.promises.stat(filePath).catch(() => null)
+    if (!stat?.isFile()) {
+      console.error('📺 File not found:', filePath)
+      return new Response(null, { status: 404 })
+    }
+
+    const headers: Record<string, string> = {
+      'Content-Type': getMimeType(filePath),
+      'Accept-Ranges': 'bytes',
+      'Access-Control-Allow-Origin': '*'
+    }
+
+    const range = parseRangeHeader(request.headers.get('Range'), stat.size)
+    if (range === 'unsatisfiable') {
+      return new Response(null, { status: 416, headers: { ...headers, 'Content-Range': `bytes */${stat.size}` } })
+    }
+
+    const { start, end } = range || { start: 0, end: stat.size - 1 }
+    headers['Content-Length'] = String(end - start + 1)
+    if (range) {
+      headers['Content-Range'] = `bytes ${start}-${end}/${stat.size}`
     }
+
+    const body = request.method === 'HEAD' || stat.size === 0
+      ? null
+      : Readable.toWeb(fs.createReadStream(filePath, { start, end })) as ReadableStream
+    return new Response(body, { status: range ? 206 : 200, headers })
   })
 
   console.log('📺 Custom protocol "tube://" registered')
@@ -68,17 +120,71 @@ function createWindow() {
 }
 
 app.whenReady().then(async () => {
+  // Command line mode: run the command and exit without opening a window
+  if (cliArgs) {
+    app.dock?.hide()
+    app.exit(await runCli(cliArgs))
+    return
+  }
+
   // Register custom protocol for video files
   registerVideoProtocol()
 
-  // Initialize database
-  databaseService.initialize()
+  // Take the library lock so a tube-crawler command can't write to it meanwhile
+  try {
+    lockService.acquire('app')
+  } catch (error) {
+    if (!(error instanceof LockError)) {
+      throw error
+    }
+    dialog.showErrorBox('Tube Crawler could not open its library', error.message)
+    app.quit()
+    return
+  }
+
+  // Initialize database (applies pending schema migrations)
+  try {
+    databaseService.initialize()
+  } catch (error) {
+    console.error('Failed to initialize database:', error)
+    const message = error instanceof Error ? error.message : String(error)
+    const backupNote = error instanceof MigrationError && error.backupPath
+      ? `\n\nA backup of your library was saved before upgrading:\n${error.backupPath}`
+      : ''
+    dialog.showErrorBox('Tube Crawler could not open its database', message + backupNote)
+    app.quit()
+    return
+  }
 
   // Initialize Youtube.js client (singleton)
   await youtubeService.initialize()
 
   createWindow()
 
+  // Restore download queue (re-enqueues downloads interrupted by a crash)
+  forwardQueueEvents()
+  queueService.initialize()
+
+  // Make subtitles downloaded by older versions searchable
+  subtitleService.indexMissingTranscripts()
+
+  // Cache thumbnails of videos added before the cache existed or while offline
+  thumbnailService.backfill()
+
+  // Poll subscribed channels for new uploads
+  forwardChannelEvents()
+  channelService.startScheduler()
+
+  // Re-check library videos for metadata changes and removals
+  forwardMetadataEvents()
+  metadataService.startScheduler()
+
+  forwardTakeoutEvents()
+  forwardStorageEvents()
+
+  // Local HTTP API for scripts and the browser bookmarklet, when enabled in settings
+  await httpApiServer.applySettings()
+
   app.on('activate', () => {
     if (BrowserWindow.getAllWindows().length === 0) {
       createWindow()
@@ -86,8 +192,64 @@ app.whenReady().then(async () => {
   })
 })
 
+/**
+ * Forward download queue events to every window
+ */
+function forwardQueueEvents() {
+  queueService.on('progress', (data) => broadcast('download:progress', data))
+  queueService.on('complete', (data) => broadcast('download:complete', data))
+  queueService.on('failed', (data) => broadcast('download:error', data))
+  queueService.on('updated', (status) => broadcast('queue:updated', status))
+}
+
+/**
+ * Forward new uploads found by the channel crawler to every window
+ */
+function forwardChannelEvents() {
+  channelService.on('newVideos', ({ channel, videos }: NewVideosEvent) => {
+    broadcast('channel:newVideos', {
+      channelId: channel.channelId,
+      channelName: channel.name,
+      videos: videos.map(toVideoMetadata)
+    })
+  })
+}
+
+/**
+ * Warn every window when a video that isn't downloaded yet disappears from YouTube
+ */
+function forwardMetadataEvents() {
+  metadataService.on('videoUnavailable', ({ video, status, reason }: VideoUnavailableEvent) => {
+    broadcast('video:unavailable', {
+      video: toVideoMetadata({ ...video, availability: status }),
+      status,
+      reason
+    })
+  })
+}
+
+/**
+ * Forward Google Takeout import progress to the renderer
+ */
+function forwardTakeoutEvents() {
+  takeoutService.on('progress', (report) => broadcast('takeout:progress', report))
+  takeoutService.on('complete', (report) => broadcast('takeout:complete', report))
+}
+
+/**
+ * Forward library move progress to the renderer
+ */
+function forwardStorageEvents() {
+  storageService.on('moveProgress', (progress) => broadcast('storage:moveProgress', progress))
+}
+
 app.on('before-quit', () => {
+  takeoutService.cancel()
+  channelService.stopScheduler()
+  metadataService.stopScheduler()
+  httpApiServer.stop()
   databaseService.close()
+  lockService.release()
 })
 
 app.on('window-all-closed', () => {
@@ -96,257 +258,640 @@ app.on('window-all-closed', () => {
   }
 })
 
-// IPC Handlers
-
 /**
- * Add video by URL - fetch metadata using Youtube.js
+ * Convert database video to frontend format
  */
-ipcMain.handle('video:add', async (event, url: string) => {
-  try {
-    // Get Youtube.js client from singleton service
-    const youtube = await youtubeService.getClient()
-
-    console.log('Fetching metadata for:', url)
-
-    // Extract video ID from URL
-    const videoIdMatch = url.match(/(?:youtu\.be\/|youtube\.com(?:\/embed\/|\/v\/|\/watch\?v=|\/watch\?.+&v=))([^&\n?#]+)/)
-    if (!videoIdMatch) {
-      throw new Error('Invalid YouTube URL')
-    }
-    const videoId = videoIdMatch[1]
+function toVideoMetadata(v: Video) {
+  return {
+    id: v.videoId,
+    url: v.url,
+    title: v.title,
+    thumbnail: v.thumbnailPath ? `tube://thumbnails/${path.basename(v.thumbnailPath)}` : v.thumbnailUrl,
+    duration: v.duration,
+    channel: v.channelName,
+    filePath: v.filePath || undefined,
+    downloadStatus: v.downloadStatus,
+    downloadProgress: v.downloadProgress,
+    fileSize: v.fileSize || undefined,
+    downloadAttempts: v.downloadAttempts || 0,
+    availability: v.availability,
+    channelId: v.channelId,
+    uploadDate: v.uploadDate,
+    viewCount: v.viewCount,
+    likeCount: v.likeCount,
+    keywords: v.keywords,
+    category: v.category,
+    addedAt: v.createdAt,
+    lastError: v.lastErrorCode
+      ? { code: v.lastErrorCode, message: v.lastErrorMessage || '' }
+      : undefined
+  }
+}
 
-    // Get video info using Youtube.js
-    const info = await youtube.getInfo(videoId)
-    const basicInfo = info.basic_info
+/**
+ * Convert database videos to frontend format, with their tags and watch state
+ */
+function toLibraryVideos(videos: Video[]) {
+  const tagsByVideo = databaseService.getTagNamesByVideo()
+  const progressByVideo = databaseService.getWatchProgressByVideo()
 
-    // Check for duplicates
-    const existing = databaseService.getVideoByVideoId(videoId)
-    if (existing) {
-      throw new Error('Video already added')
+  return videos.map(v => {
+    const progress = progressByVideo.get(v.videoId)
+    return {
+      ...toVideoMetadata(v),
+      tags: tagsByVideo.get(v.videoId) || [],
+      watchPosition: progress && !progress.watched ? progress.position : 0,
+      watched: progress?.watched || false
     }
+  })
+}
 
-    // Extract metadata
-    const title = basicInfo.title || 'Untitled'
-    const thumbnailUrl = basicInfo.thumbnail?.[0]?.url || ''
-    const duration = basicInfo.duration || 0
-    const channelName = basicInfo.author || 'Unknown'
-    const description = basicInfo.short_description || ''
-    const uploadDate = basicInfo.start_timestamp?.toISOString().split('T')[0] || ''
-
-    // Add to database
-    const video = databaseService.addVideo({
-      videoId,
-      url,
-      title,
-      thumbnailUrl,
-      duration,
-      channelName,
-      description,
-      uploadDate
-    })
-
-    console.log('Video added:', video.title)
+// IPC Handlers (channels and argument types are declared in ../ipc-contract.ts)
 
-    // Return in format compatible with frontend
-    return {
-      success: true,
-      video: {
-        id: video.videoId,
-        url: video.url,
-        title: video.title,
-        thumbnail: video.thumbnailUrl,
-        duration: video.duration,
-        channel: video.channelName
-      }
-    }
-  } catch (error) {
-    console.error('Error adding video:', error)
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : 'Failed to add video'
-    }
-  }
-})
+/**
+ * Add video by URL - fetch metadata using Youtube.js
+ */
+handle('video:add', async (url) => ({ video: toVideoMetadata(await videoService.addByUrl(url)) }))
 
 /**
  * Get all videos
  */
-ipcMain.handle('video:getAll', async () => {
-  try {
-    const dbVideos = databaseService.getAllVideos()
-
-    // Convert to frontend format
-    const videos = dbVideos.map(v => ({
-      id: v.videoId,
-      url: v.url,
-      title: v.title,
-      thumbnail: v.thumbnailUrl,
-      duration: v.duration,
-      channel: v.channelName,
-      filePath: v.filePath || undefined,
-      downloadStatus: v.downloadStatus,
-      downloadProgress: v.downloadProgress,
-      fileSize: v.fileSize || undefined
-    }))
-
-    return { success: true, videos }
-  } catch (error) {
-    console.error('Error getting videos:', error)
-    return { success: false, error: 'Failed to get videos' }
-  }
+handle('video:getAll', () => {
+  const dbVideos = databaseService.getAllVideos()
+
+  // Convert to frontend format
+  return { videos: toLibraryVideos(dbVideos) }
 })
 
 /**
  * Search videos in local database
  */
-ipcMain.handle('video:search', async (event, query: string) => {
-  try {
-    console.log('Local search request received:', query)
-    const dbVideos = databaseService.searchVideos(query)
-    console.log('Local search results:', dbVideos.length, 'videos found')
-
-    // Convert to frontend format
-    const videos = dbVideos.map(v => ({
-      id: v.videoId,
-      url: v.url,
-      title: v.title,
-      thumbnail: v.thumbnailUrl,
-      duration: v.duration,
-      channel: v.channelName,
-      filePath: v.filePath || undefined,
-      downloadStatus: v.downloadStatus,
-      downloadProgress: v.downloadProgress,
-      fileSize: v.fileSize || undefined
-    }))
-
-    return { success: true, videos }
-  } catch (error) {
-    console.error('Error searching videos:', error)
-    return { success: false, error: 'Failed to search videos' }
-  }
+handle('video:search', (query) => {
+  console.log('Local search request received:', query)
+  const results = databaseService.searchVideos(query)
+  console.log('Local search results:', results.length, 'videos found')
+  const libraryVideos = toLibraryVideos(results.map(result => result.video))
+
+  // Convert to frontend format, keeping the highlighted snippet and transcript hits
+  const videos = results.map(({ snippet, transcriptMatches }, i) => ({
+    ...libraryVideos[i],
+    snippet,
+    transcriptMatches
+  }))
+
+  return { videos }
 })
 
 /**
  * Search videos on YouTube
  */
-ipcMain.handle('video:searchYouTube', async (event, query: string) => {
-  try {
-    // Get Youtube.js client from singleton service
-    const youtube = await youtubeService.getClient()
-
-    console.log('YouTube search request:', query)
-
-    const searchResults = await youtube.search(query, { type: 'video' })
-    const videos = searchResults.videos?.slice(0, 10).map((video: any) => ({
-      id: video.id,
-      url: `https://www.youtube.com/watch?v=${video.id}`,
-      title: video.title?.text || 'Untitled',
-      thumbnail: video.thumbnails?.[0]?.url || video.best_thumbnail?.url || '',
-      duration: video.duration?.seconds || 0,
-      channel: video.author?.name || 'Unknown',
-      viewCount: video.view_count?.text || '',
-      publishedDate: video.published?.text || ''
-    })) || []
-
-    console.log('YouTube search results:', videos.length, 'videos found')
-
-    return { success: true, videos }
-  } catch (error) {
-    console.error('Error searching YouTube:', error)
-    return { success: false, error: 'Failed to search YouTube' }
-  }
+handle('video:searchYouTube', async (query) => {
+  // Get Youtube.js client from singleton service
+  const youtube = await youtubeService.getClient()
+
+  console.log('YouTube search request:', query)
+
+  const searchResults = await youtube.search(query, { type: 'video' })
+  const videos = searchResults.videos?.slice(0, 10).map((video: any) => ({
+    id: video.id,
+    url: `https://www.youtube.com/watch?v=${video.id}`,
+    title: video.title?.text || 'Untitled',
+    thumbnail: video.thumbnails?.[0]?.url || video.best_thumbnail?.url || '',
+    duration: video.duration?.seconds || 0,
+    channel: video.author?.name || 'Unknown',
+    viewCount: video.view_count?.text || '',
+    publishedDate: video.published?.text || ''
+  })) || []
+
+  console.log('YouTube search results:', videos.length, 'videos found')
+
+  return { videos }
 })
 
 /**
  * Delete video
  */
-ipcMain.handle('video:delete', async (event, videoId: string) => {
-  try {
-    const video = databaseService.getVideoByVideoId(videoId)
-    if (!video) {
-      throw new Error('Video not found')
-    }
+handle('video:delete', (videoId) => {
+  const video = databaseService.getVideoByVideoId(videoId)
+  if (!video) {
+    throw new ApiError('NOT_FOUND', 'Video not found')
+  }
 
-    // Delete downloaded file if exists
-    if (video.filePath && fs.existsSync(video.filePath)) {
-      fs.unlinkSync(video.filePath)
-      console.log('Deleted file:', video.filePath)
-    }
+  // Stop any queued or running download and remove partial data
+  queueService.remove(videoId)
+  downloadService.discardDownload(videoId)
+  subtitleService.deleteSubtitles(videoId)
+  thumbnailService.deleteThumbnail(video)
 
-    databaseService.deleteVideoByVideoId(videoId)
-    console.log('Video deleted:', videoId)
-    return { success: true }
-  } catch (error) {
-    console.error('Error deleting video:', error)
-    return { success: false, error: 'Failed to delete video' }
+  // Delete downloaded file if exists
+  if (video.filePath && fs.existsSync(video.filePath)) {
+    fs.unlinkSync(video.filePath)
+    console.log('Deleted file:', video.filePath)
   }
+
+  databaseService.deleteVideoByVideoId(videoId)
+  console.log('Video deleted:', videoId)
+  return {}
+})
+
+/**
+ * Get a video's chapter markers in playback order
+ */
+handle('video:getChapters', (videoId) => ({ chapters: databaseService.getChapters(videoId) }))
+
+/**
+ * Re-fetch a video's metadata and availability now
+ */
+handle('video:refreshMetadata', async (videoId) => {
+  const video = await metadataService.refreshVideo(videoId)
+  return { video: toVideoMetadata(video) }
 })
 
+/**
+ * Get a video's availability changes, newest first
+ */
+handle('video:getAvailabilityHistory', (videoId) => ({
+  history: databaseService.getAvailabilityHistory(videoId)
+}))
+
 /**
  * Check system status (Youtube.js is bundled, no external dependencies needed)
  */
-ipcMain.handle('system:checkYtDlp', async () => {
+handle('system:checkYtDlp', () => {
   // Youtube.js is bundled with the app, no external dependencies required
   return {
-    success: true,
     installed: true,
     message: 'Using Youtube.js (no external dependencies required)'
   }
 })
 
 /**
- * Download video
+ * Download video (added to the download queue)
+ * Options override the default quality/format from settings
  */
-ipcMain.handle('video:download', async (event, videoId: string, url: string) => {
-  try {
-    console.log('Starting download for:', videoId)
+handle('video:download', (videoId, url, options) => {
+  console.log('Queueing download for:', videoId)
+  return { job: queueService.enqueue(videoId, url, 0, options) }
+})
 
-    const result = await downloadService.downloadVideo(videoId, url, (progress) => {
-      // Send progress updates to renderer
-      event.sender.send('download:progress', { videoId, progress })
-    })
+/**
+ * List available formats for a video (for the format picker)
+ */
+handle('video:getFormats', async (videoId) => ({ formats: await formatService.listFormats(videoId) }))
 
-    console.log('Download completed:', videoId, result.filePath)
+/**
+ * List the caption tracks available for a video
+ */
+handle('video:getCaptionTracks', async (videoId) => ({ tracks: await subtitleService.listCaptionTracks(videoId) }))
+
+/**
+ * Get downloaded subtitles of a video with their tube:// URLs
+ */
+handle('video:getSubtitles', (videoId) => {
+  const subtitles = databaseService.getSubtitles(videoId).map(subtitle => ({
+    languageCode: subtitle.languageCode,
+    name: subtitle.name,
+    kind: subtitle.kind,
+    url: `tube://${path.basename(subtitle.filePath)}`
+  }))
+  return { subtitles }
+})
 
-    // Send completion event to trigger UI update
-    event.sender.send('download:complete', { videoId, filePath: result.filePath })
+/**
+ * Pause download (removes it from the queue, keeping partial data for resuming)
+ */
+handle('video:pauseDownload', (videoId) => ({ paused: queueService.remove(videoId) }))
 
-    return { success: true, ...result }
-  } catch (error) {
-    console.error('Error downloading video:', error)
+/**
+ * Discard download (removes it from the queue and deletes partial data)
+ */
+handle('video:discardDownload', (videoId) => {
+  queueService.remove(videoId)
+  downloadService.discardDownload(videoId)
+  return {}
+})
+
+/**
+ * Get downloads path
+ */
+handle('system:getDownloadsPath', () => ({ path: downloadService.getDownloadsPath() }))
 
-    // Send error event
-    event.sender.send('download:error', { videoId, error: error instanceof Error ? error.message : 'Failed to download video' })
+/**
+ * Get download queue status
+ */
+handle('queue:getStatus', () => ({ status: queueService.getStatus() }))
 
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : 'Failed to download video'
+/**
+ * Add video to download queue with optional priority (higher runs first)
+ */
+handle('queue:enqueue', (videoId, url, priority = 0, options) => ({
+  job: queueService.enqueue(videoId, url, priority, options)
+}))
+
+/**
+ * Remove video from download queue
+ */
+handle('queue:remove', (videoId) => ({ removed: queueService.remove(videoId) }))
+
+/**
+ * Change priority of a queued download
+ */
+handle('queue:setPriority', (videoId, priority) => {
+  queueService.setPriority(videoId, priority)
+  return {}
+})
+
+/**
+ * Pause download queue
+ */
+handle('queue:pause', () => {
+  queueService.pause()
+  return {}
+})
+
+/**
+ * Resume download queue
+ */
+handle('queue:resume', () => {
+  queueService.resume()
+  return {}
+})
+
+/**
+ * Set maximum number of concurrent downloads
+ */
+handle('queue:setMaxConcurrency', (maxConcurrency) => {
+  queueService.setMaxConcurrency(maxConcurrency)
+  return {}
+})
+
+/**
+ * Get application settings
+ */
+handle('settings:get', () => ({ settings: settingsService.getAll() }))
+
+/**
+ * Update application settings (partial)
+ * The library folder isn't accepted here: it only changes through
+ * storage:moveLibrary, which moves the files along.
+ */
+handle('settings:update', (partial) => ({ settings: settingsService.update(partial) }))
+
+/**
+ * Import a YouTube playlist into the library, optionally queueing all its videos
+ */
+handle('playlist:import', (url, options) => playlistService.importPlaylist(url, options))
+
+/**
+ * Get all imported playlists
+ */
+handle('playlist:getAll', () => ({ playlists: databaseService.getAllPlaylists() }))
+
+/**
+ * Get the videos of a playlist in playlist order
+ */
+handle('playlist:getVideos', (playlistId) => ({
+  videos: databaseService.getPlaylistVideos(playlistId).map(toVideoMetadata)
+}))
+
+/**
+ * Delete an imported playlist (its videos stay in the library)
+ */
+handle('playlist:delete', (playlistId) => {
+  databaseService.deletePlaylist(playlistId)
+  return {}
+})
+
+/**
+ * Get all tags with their video counts
+ */
+handle('tag:getAll', () => ({ tags: databaseService.getAllTags() }))
+
+/**
+ * Create a tag (returns the existing tag if the name is already taken)
+ */
+handle('tag:create', (name) => {
+  if (!name.trim()) {
+    throw new ApiError('INVALID_ARGUMENT', 'Tag name is required')
+  }
+  return { tag: databaseService.createTag(name.trim()) }
+})
+
+/**
+ * Rename a tag
+ */
+handle('tag:rename', (tagId, name) => {
+  if (!name.trim()) {
+    throw new ApiError('INVALID_ARGUMENT', 'Tag name is required')
+  }
+  // Tag names are unique regardless of case (COLLATE NOCASE)
+  const taken = databaseService.getAllTags().some(tag => tag.name.toLowerCase() === name.trim().toLowerCase() && tag.id !== tagId)
+  if (taken) {
+    throw new ApiError('CONFLICT', 'A tag with that name already exists')
+  }
+  databaseService.renameTag(tagId, name.trim())
+  return {}
+})
+
+/**
+ * Delete a tag (the tagged videos stay in the library)
+ */
+handle('tag:delete', (tagId) => {
+  databaseService.deleteTag(tagId)
+  return {}
+})
+
+/**
+ * Add a tag to one or more videos
+ */
+handle('tag:assign', (tagId, videoIds) => {
+  databaseService.addTagToVideos(tagId, videoIds)
+  return {}
+})
+
+/**
+ * Remove a tag from one or more videos
+ */
+handle('tag:unassign', (tagId, videoIds) => {
+  databaseService.removeTagFromVideos(tagId, videoIds)
+  return {}
+})
+
+/**
+ * Get all collections with their video counts
+ */
+handle('collection:getAll', () => ({ collections: databaseService.getAllCollections() }))
+
+/**
+ * Create an empty collection
+ */
+handle('collection:create', (name, description) => {
+  if (!name.trim()) {
+    throw new ApiError('INVALID_ARGUMENT', 'Collection name is required')
+  }
+  return { collection: databaseService.createCollection(name.trim(), description) }
+})
+
+/**
+ * Rename a collection or change its description
+ */
+handle('collection:update', (collectionId, name, description) => {
+  if (!name.trim()) {
+    throw new ApiError('INVALID_ARGUMENT', 'Collection name is required')
+  }
+  databaseService.updateCollection(collectionId, name.trim(), description)
+  return {}
+})
+
+/**
+ * Delete a collection (its videos stay in the library)
+ */
+handle('collection:delete', (collectionId) => {
+  databaseService.deleteCollection(collectionId)
+  return {}
+})
+
+/**
+ * Append videos to the end of a collection
+ */
+handle('collection:addVideos', (collectionId, videoIds) => {
+  databaseService.addVideosToCollection(collectionId, videoIds)
+  return {}
+})
+
+/**
+ * Remove videos from a collection
+ */
+handle('collection:removeVideos', (collectionId, videoIds) => {
+  databaseService.removeVideosFromCollection(collectionId, videoIds)
+  return {}
+})
+
+/**
+ * Save a new video order for a collection
+ */
+handle('collection:reorder', (collectionId, videoIds) => {
+  databaseService.reorderCollection(collectionId, videoIds)
+  return {}
+})
+
+/**
+ * Get the video IDs of a collection in collection order
+ */
+handle('collection:getVideoIds', (collectionId) => ({
+  videoIds: databaseService.getCollectionVideoIds(collectionId)
+}))
+
+/**
+ * Start a playback session; returns the position to resume from
+ */
+handle('watch:start', (videoId) => {
+  const sessionId = databaseService.startWatchSession(videoId)
+  const progress = databaseService.getWatchProgress(videoId)
+  const resumePosition = progress && !progress.watched ? progress.position : 0
+  return { sessionId, resumePosition }
+})
+
+/**
+ * Save the playback position and the time watched since the last save
+ */
+handle('watch:saveProgress', (videoId, sessionId, position, duration, elapsed) => {
+  const threshold = settingsService.get('watchedThresholdPercent') / 100
+  return { progress: databaseService.saveWatchProgress(videoId, sessionId, position, duration, elapsed, threshold) }
+})
+
+/**
+ * Mark videos watched or unwatched
+ */
+handle('watch:setWatched', (videoIds, watched) => {
+  databaseService.setWatched(videoIds, watched)
+  return {}
+})
+
+/**
+ * Get the IDs of partly watched videos, most recent first
+ */
+handle('watch:getContinueWatching', () => ({ videoIds: databaseService.getContinueWatchingIds() }))
+
+/**
+ * Get the IDs of downloaded videos that haven't been watched
+ */
+handle('watch:getUnwatched', () => ({ videoIds: databaseService.getUnwatchedIds() }))
+
+/**
+ * Get recent playback sessions
+ */
+handle('watch:getHistory', (limit) => ({ history: databaseService.getWatchHistory(limit) }))
+
+/**
+ * Clear the watch history (watched state and resume positions are kept)
+ */
+handle('watch:clearHistory', () => {
+  databaseService.clearWatchHistory()
+  return {}
+})
+
+/**
+ * Export the library as JSON (optionally bundled with downloaded files) or CSV,
+ * or the channel subscriptions as OPML
+ */
+handle('library:export', async (format, options = {}) => {
+  const date = new Date().toISOString().split('T')[0]
+  const bundle = format === 'json' && options.includeFiles
+  const { canceled, filePath } = await dialog.showSaveDialog(mainWindow!, {
+    title: format === 'opml' ? 'Export subscriptions' : 'Export library',
+    defaultPath: format === 'opml'
+      ? `tube-crawler-subscriptions-${date}.opml`
+      : `tube-crawler-library-${date}${bundle ? '' : `.${format}`}`,
+    filters: bundle ? [] : [{ name: format.toUpperCase(), extensions: [format] }]
+  })
+  if (canceled || !filePath) {
+    return { canceled: true }
+  }
+
+  return { result: await libraryService.exportLibrary(filePath, format, options) }
+})
+
+/**
+ * Import a library export, CSV or OPML file; with dryRun only report what would change
+ * Without a filePath the user picks the file, and the chosen path is returned for the real run.
+ */
+handle('library:import', async (options = {}) => {
+  let filePath = options.filePath
+  if (!filePath) {
+    const result = await dialog.showOpenDialog(mainWindow!, {
+      title: 'Import library',
+      properties: ['openFile'],
+      filters: [{ name: 'Library exports', extensions: ['json', 'csv', 'opml', 'xml'] }]
+    })
+    if (result.canceled || result.filePaths.length === 0) {
+      return { canceled: true }
     }
+    filePath = result.filePaths[0]
   }
+
+  const report = await libraryService.importLibrary(filePath, { dryRun: options.dryRun })
+  return { filePath, report }
 })
 
 /**
- * Cancel download
+ * Import watch history and playlists from an extracted Google Takeout folder
+ * Returns once the library rows exist; metadata is fetched in the background
+ * and reported through takeout:progress / takeout:complete.
  */
-ipcMain.handle('video:cancelDownload', async (event, videoId: string) => {
-  try {
-    const cancelled = downloadService.cancelDownload(videoId)
-    return { success: true, cancelled }
-  } catch (error) {
-    console.error('Error cancelling download:', error)
-    return { success: false, error: 'Failed to cancel download' }
+handle('takeout:import', async (options = {}) => {
+  let sourcePath = options.sourcePath
+  if (!sourcePath) {
+    const result = await dialog.showOpenDialog(mainWindow!, {
+      title: 'Select the Google Takeout archive or its extracted folder',
+      // On macOS one panel can pick either an archive or a folder
+      properties: ['openFile', 'openDirectory'],
+      filters: [{ name: 'Google Takeout', extensions: ['zip', 'tgz', 'gz', 'json', 'html', 'csv'] }]
+    })
+    if (result.canceled || result.filePaths.length === 0) {
+      return { canceled: true }
+    }
+    sourcePath = result.filePaths[0]
   }
+
+  return { report: await takeoutService.importTakeout(sourcePath, options) }
 })
 
 /**
- * Get downloads path
+ * Stop fetching metadata for a running Takeout import
  */
-ipcMain.handle('system:getDownloadsPath', async () => {
-  try {
-    const downloadsPath = downloadService.getDownloadsPath()
-    return { success: true, path: downloadsPath }
-  } catch (error) {
-    return { success: false, error: 'Failed to get downloads path' }
+handle('takeout:cancel', () => {
+  takeoutService.cancel()
+  return {}
+})
+
+/**
+ * Get library folder location, disk usage per channel and the largest downloads
+ */
+handle('storage:getStats', async () => ({ stats: await storageService.getStats() }))
+
+/**
+ * Move downloaded files to a new library folder picked by the user
+ */
+handle('storage:moveLibrary', async () => {
+  const result = await dialog.showOpenDialog(mainWindow!, {
+    title: 'Choose an empty folder for the library',
+    properties: ['openDirectory', 'createDirectory']
+  })
+  if (result.canceled || result.filePaths.length === 0) {
+    return { canceled: true }
   }
+
+  return { result: await storageService.moveLibrary(result.filePaths[0]) }
+})
+
+/**
+ * Check the library against the downloads folder (missing, resized and orphan files, stuck downloads)
+ */
+handle('integrity:scan', async () => ({ report: await integrityService.scan() }))
+
+/**
+ * Apply a repair action to an issue found by integrity:scan
+ */
+handle('integrity:repair', async (issue, action) => {
+  await integrityService.repair(issue, action)
+  return {}
 })
 
+/**
+ * Subscribe to a channel by @handle, channel URL or channel ID
+ */
+handle('channel:subscribe', async (input, rules) => ({ channel: await channelService.subscribe(input, rules) }))
+
+/**
+ * Get all subscribed channels
+ */
+handle('channel:getAll', () => ({ channels: databaseService.getAllChannels() }))
+
+/**
+ * Update a channel's auto-download rules
+ */
+handle('channel:updateRules', (channelId, rules) => ({ channel: channelService.updateRules(channelId, rules) }))
+
+/**
+ * Unsubscribe from a channel (its videos stay in the library)
+ */
+handle('channel:unsubscribe', (channelId) => {
+  channelService.unsubscribe(channelId)
+  return {}
+})
+
+/**
+ * Check a channel for new uploads right away
+ */
+handle('channel:check', async (channelId) => {
+  const videos = await channelService.checkChannel(channelId)
+  return { added: videos.length }
+})
+
+/**
+ * Get the local HTTP API's settings, address and token
+ */
+handle('httpApi:getStatus', () => ({ status: httpApiServer.getStatus() }))
+
+/**
+ * Enable or disable the local HTTP API, or change its port
+ */
+handle('httpApi:configure', async (options) => ({ status: await httpApiServer.configure(options) }))
+
+/**
+ * Replace the local HTTP API's token
+ */
+handle('httpApi:regenerateToken', () => ({ status: httpApiServer.regenerateToken() }))
+
+/**
+ * Open the bookmarklet page in the default browser
+ */
+handle('httpApi:openSetupPage', async () => {
+  const status = httpApiServer.getStatus()
+  if (!status.running) {
+    throw new ApiError('INVALID_ARGUMENT', 'The HTTP API is not running')
+  }
+  await shell.openExternal(`${status.url}/setup#${encodeURIComponent(status.token)}`)
+  return {}
+})
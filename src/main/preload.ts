@@ -1,28 +1,31 @@
+import { ipcContract, ipcEvents } from '../ipc-contract.js'
+
 const { contextBridge, ipcRenderer } = require('electron')
 
-// Expose protected methods that allow the renderer process to use
-// the ipcRenderer without exposing the entire object
-contextBridge.exposeInMainWorld('api', {
-  video: {
-    add: (url: string) => ipcRenderer.invoke('video:add', url),
-    getAll: () => ipcRenderer.invoke('video:getAll'),
-    search: (query: string) => ipcRenderer.invoke('video:search', query),
-    searchYouTube: (query: string) => ipcRenderer.invoke('video:searchYouTube', query),
-    delete: (videoId: string) => ipcRenderer.invoke('video:delete', videoId),
-    download: (videoId: string, url: string) => ipcRenderer.invoke('video:download', videoId, url),
-    cancelDownload: (videoId: string) => ipcRenderer.invoke('video:cancelDownload', videoId),
-    onDownloadProgress: (callback: (data: { videoId: string; progress: number }) => void) => {
-      ipcRenderer.on('download:progress', (_event: any, data: { videoId: string; progress: number }) => callback(data))
-    },
-    onDownloadComplete: (callback: (data: { videoId: string; filePath: string }) => void) => {
-      ipcRenderer.on('download:complete', (_event: any, data: { videoId: string; filePath: string }) => callback(data))
-    },
-    onDownloadError: (callback: (data: { videoId: string; error: string }) => void) => {
-      ipcRenderer.on('download:error', (_event: any, data: { videoId: string; error: string }) => callback(data))
+type Bridge = Record<string, Record<string, (...args: any[]) => unknown>>
+
+// window.api is built from the IPC contract: every invoke channel 'namespace:method'
+// becomes api.namespace.method, every event a listener registered under its declared name
+const api: Bridge = {}
+
+for (const channel of Object.keys(ipcContract)) {
+  const [namespace, method] = channel.split(':')
+  api[namespace] ??= {}
+  api[namespace][method] = (...args: unknown[]) => ipcRenderer.invoke(channel, ...args)
+}
+
+// Listeners return a function that removes them, for components to call when they unmount
+for (const [channel, { api: [namespace, method] }] of Object.entries(ipcEvents)) {
+  api[namespace] ??= {}
+  api[namespace][method] = (callback: (payload: unknown) => void) => {
+    const listener = (_event: any, payload: unknown) => callback(payload)
+    ipcRenderer.on(channel, listener)
+    return () => {
+      ipcRenderer.removeListener(channel, listener)
     }
-  },
-  system: {
-    checkYtDlp: () => ipcRenderer.invoke('system:checkYtDlp'),
-    getDownloadsPath: () => ipcRenderer.invoke('system:getDownloadsPath')
   }
-})
+}
+
+// Expose protected methods that allow the renderer process to use
+// the ipcRenderer without exposing the entire object
+contextBridge.exposeInMainWorld('api', api)
@@ -0,0 +1,30 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { formatWebVtt, parseWebVtt } from './captions.js'
+
+describe('formatWebVtt', () => {
+  it('escapes markup characters in cue text', () => {
+    const vtt = formatWebVtt([{ start: 0, end: 1500, text: 'Tom & Jerry <3 a-->b' }])
+    assert.equal(vtt, 'WEBVTT\n\n00:00:00.000 --> 00:00:01.500\nTom &amp; Jerry &lt;3 a--&gt;b\n')
+  })
+
+  it('collapses blank lines inside a cue', () => {
+    const vtt = formatWebVtt([{ start: 0, end: 1000, text: 'one\n\ntwo' }])
+    assert.equal(parseWebVtt(vtt).length, 1)
+  })
+})
+
+describe('parseWebVtt', () => {
+  it('reads back the text it wrote', () => {
+    const cues = [
+      { start: 0, end: 1500, text: 'Tom & Jerry <3' },
+      { start: 3_600_000, end: 3_601_250, text: 'a-->b &amp; c' }
+    ]
+    assert.deepEqual(parseWebVtt(formatWebVtt(cues)), cues)
+  })
+
+  it('drops inline tags and cue settings', () => {
+    const cues = parseWebVtt('WEBVTT\n\n1\n00:01.000 --> 00:02.000 align:start\n<v Speaker>Hello &lt;world&gt;</v>\n')
+    assert.deepEqual(cues, [{ start: 1000, end: 2000, text: 'Hello <world>' }])
+  })
+})
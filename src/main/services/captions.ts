@@ -0,0 +1,113 @@
+/**
+ * Caption format conversion
+ *
+ * YouTube serves caption tracks in its "json3" timed-text format; they are
+ * stored as WebVTT so the player can load them as <track> elements, and
+ * parsed back into cues for transcript search.
+ */
+
+export interface Cue {
+  /** Start time in milliseconds */
+  start: number
+  /** End time in milliseconds */
+  end: number
+  text: string
+}
+
+interface Json3Captions {
+  events?: {
+    tStartMs?: number
+    dDurationMs?: number
+    segs?: { utf8?: string }[]
+  }[]
+}
+
+/**
+ * Convert a json3 timed-text document into cues
+ * Auto-generated tracks contain layout-only events (empty or newline segments), which are skipped.
+ */
+export function parseJson3Captions(json: Json3Captions): Cue[] {
+  const cues: Cue[] = []
+
+  for (const event of json.events || []) {
+    if (!event.segs || event.tStartMs === undefined) {
+      continue
+    }
+
+    const text = event.segs.map(seg => seg.utf8 || '').join('').trim()
+    if (!text) {
+      continue
+    }
+
+    const start = event.tStartMs
+    cues.push({ start, end: start + (event.dDurationMs || 0), text })
+  }
+
+  return cues
+}
+
+function formatTimestamp(ms: number): string {
+  const hours = Math.floor(ms / 3600000)
+  const minutes = Math.floor((ms % 3600000) / 60000)
+  const seconds = Math.floor((ms % 60000) / 1000)
+  const millis = Math.floor(ms % 1000)
+  const pad = (value: number, length = 2) => String(value).padStart(length, '0')
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}.${pad(millis, 3)}`
+}
+
+function escapeCueText(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+}
+
+function unescapeCueText(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&nbsp;/g, '\u00a0')
+    .replace(/&amp;/g, '&')
+}
+
+/**
+ * Serialize cues as a WebVTT document
+ */
+export function formatWebVtt(cues: Cue[]): string {
+  const blocks = cues.map(cue => {
+    // A blank line would end the cue early, "<" would start a tag and "&" an
+    // entity; escaping ">" as well keeps "-->" from being read as a timing line
+    const text = escapeCueText(cue.text.replace(/\n{2,}/g, '\n'))
+    return `${formatTimestamp(cue.start)} --> ${formatTimestamp(cue.end)}\n${text}`
+  })
+  return ['WEBVTT', ...blocks].join('\n\n') + '\n'
+}
+
+function parseTimestamp(value: string): number {
+  const parts = value.trim().split(':')
+  const seconds = parseFloat(parts.pop() || '0')
+  const minutes = parseInt(parts.pop() || '0')
+  const hours = parseInt(parts.pop() || '0')
+  return Math.round(((hours * 60 + minutes) * 60 + seconds) * 1000)
+}
+
+/**
+ * Parse a WebVTT document into cues (cue settings and inline tags are dropped)
+ */
+export function parseWebVtt(vtt: string): Cue[] {
+  const cues: Cue[] = []
+
+  for (const block of vtt.replace(/\r\n?/g, '\n').split(/\n{2,}/)) {
+    const lines = block.split('\n')
+    const timingIndex = lines.findIndex(line => line.includes('-->'))
+    if (timingIndex === -1) {
+      continue
+    }
+
+    const [start, rest] = lines[timingIndex].split('-->')
+    const end = rest.trim().split(/\s+/)[0]
+    const text = unescapeCueText(lines.slice(timingIndex + 1).join('\n').replace(/<[^>]+>/g, '')).trim()
+    if (text) {
+      cues.push({ start: parseTimestamp(start), end: parseTimestamp(end), text })
+    }
+  }
+
+  return cues
+}
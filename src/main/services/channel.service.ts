@@ -0,0 +1,267 @@
+import { EventEmitter } from 'events'
+import { YTNodes } from 'youtubei.js'
+import { youtubeService } from './youtube.service.js'
+import { databaseService, type Channel, type ChannelRules, type Video } from './database.service.js'
+import { queueService } from './queue.service.js'
+import { thumbnailService } from './thumbnail.service.js'
+import { settingsService } from './settings.service.js'
+
+// How often the scheduler looks for channels that are due for a check
+const SCHEDULER_TICK_MS = 60 * 1000
+
+const DEFAULT_RULES: ChannelRules = { autoDownload: false }
+
+export interface NewVideosEvent {
+  channel: Channel
+  videos: Video[]
+}
+
+const RELATIVE_UNITS_MS: Record<string, number> = {
+  second: 1000,
+  minute: 60 * 1000,
+  hour: 60 * 60 * 1000,
+  day: 24 * 60 * 60 * 1000,
+  week: 7 * 24 * 60 * 60 * 1000,
+  month: 30 * 24 * 60 * 60 * 1000,
+  year: 365 * 24 * 60 * 60 * 1000
+}
+
+/**
+ * Approximate a publish date from YouTube's relative text ("3 days ago", "Streamed 2 weeks ago")
+ */
+function parseRelativeDate(text: string | undefined, now: Date = new Date()): Date | undefined {
+  const match = text?.match(/(\d+)\s+(second|minute|hour|day|week|month|year)s?\s+ago/i)
+  if (!match) {
+    return undefined
+  }
+  const amount = parseInt(match[1])
+  return new Date(now.getTime() - amount * RELATIVE_UNITS_MS[match[2].toLowerCase()])
+}
+
+/**
+ * SQLite CURRENT_TIMESTAMP values are UTC without a zone suffix
+ */
+function parseDbTimestamp(value: string): Date {
+  return new Date(value.replace(' ', 'T') + 'Z')
+}
+
+/**
+ * Check a new upload against a channel's auto-download rules
+ */
+function matchesRules(rules: ChannelRules, video: { title: string; duration: number; published?: Date }): boolean {
+  if (!rules.autoDownload) {
+    return false
+  }
+  if (rules.maxDuration && video.duration > rules.maxDuration) {
+    return false
+  }
+  if (rules.keywordFilter) {
+    const keywords = rules.keywordFilter.split(',').map(k => k.trim().toLowerCase()).filter(Boolean)
+    const title = video.title.toLowerCase()
+    if (keywords.length > 0 && !keywords.some(keyword => title.includes(keyword))) {
+      return false
+    }
+  }
+  if (rules.maxAgeDays && video.published) {
+    const age = Date.now() - video.published.getTime()
+    if (age > rules.maxAgeDays * RELATIVE_UNITS_MS.day) {
+      return false
+    }
+  }
+  return true
+}
+
+/**
+ * Channel subscriptions and the background crawler
+ *
+ * Every subscribed channel's uploads tab is polled on the configured interval.
+ * Uploads not yet in the library are added; the ones matching the channel's
+ * rules are queued for download. The first check after subscribing only fills
+ * the library with the current uploads and never downloads anything.
+ *
+ * Events:
+ * - 'newVideos' NewVideosEvent
+ */
+class ChannelService extends EventEmitter {
+  private timer: NodeJS.Timeout | null = null
+  private checking = false
+
+  /**
+   * Resolve a channel from an @handle, channel URL or channel ID
+   */
+  private async resolveChannelId(input: string): Promise<string> {
+    const value = input.trim()
+
+    const idMatch = value.match(/(?:^|\/channel\/)(UC[\w-]{22})(?:$|[/?#])/)
+    if (idMatch) {
+      return idMatch[1]
+    }
+
+    const youtube = await youtubeService.getClient()
+    const url = value.startsWith('@') ? `https://www.youtube.com/${value}` : value
+    if (!/^https?:\/\/(www\.|m\.)?youtube\.com\//.test(url)) {
+      throw new Error('Invalid channel: use an @handle, channel URL or channel ID')
+    }
+
+    const endpoint = await youtube.resolveURL(url)
+    const browseId: string | undefined = endpoint.payload?.browseId
+    if (!browseId?.startsWith('UC')) {
+      throw new Error('URL does not point to a YouTube channel')
+    }
+    return browseId
+  }
+
+  /**
+   * Subscribe to a channel and run its first check in the background
+   */
+  async subscribe(input: string, rules: ChannelRules = DEFAULT_RULES): Promise<Channel> {
+    const channelId = await this.resolveChannelId(input)
+    if (databaseService.getChannel(channelId)) {
+      throw new Error('Already subscribed to this channel')
+    }
+
+    const youtube = await youtubeService.getClient()
+    const page = await youtube.getChannel(channelId)
+    const metadata = page.metadata
+
+    const channel = databaseService.addChannel({
+      channelId,
+      handle: metadata.vanity_channel_url?.match(/@[\w.-]+/)?.[0],
+      name: metadata.title || 'Unknown channel',
+      url: `https://www.youtube.com/channel/${channelId}`,
+      thumbnailUrl: metadata.avatar?.[0]?.url
+    }, rules)
+    console.log('Subscribed to channel:', channel.name)
+
+    this.checkChannel(channelId).catch(error => {
+      console.error('Initial channel check failed:', channelId, error)
+    })
+
+    return channel
+  }
+
+  unsubscribe(channelId: string) {
+    databaseService.deleteChannel(channelId)
+    console.log('Unsubscribed from channel:', channelId)
+  }
+
+  updateRules(channelId: string, rules: ChannelRules): Channel {
+    if (!databaseService.getChannel(channelId)) {
+      throw new Error('Channel not found')
+    }
+    databaseService.updateChannelRules(channelId, rules)
+    return databaseService.getChannel(channelId)!
+  }
+
+  /**
+   * Fetch a channel's latest uploads, add new ones and queue those matching its rules
+   * Returns the videos added to the library
+   */
+  async checkChannel(channelId: string): Promise<Video[]> {
+    const channel = databaseService.getChannel(channelId)
+    if (!channel) {
+      throw new Error('Channel not found')
+    }
+
+    try {
+      const youtube = await youtubeService.getClient()
+      const page = await youtube.getChannel(channelId)
+      const uploads = await page.getVideos()
+
+      const isFirstCheck = !channel.lastCheckedAt
+      const added: Video[] = []
+
+      for (const entry of uploads.videos.filterType(YTNodes.Video)) {
+        // Live streams and premieres have no downloadable file yet
+        if (entry.is_live || entry.is_upcoming || databaseService.getVideoByVideoId(entry.id)) {
+          continue
+        }
+
+        const published = parseRelativeDate(entry.published?.toString())
+        const url = `https://www.youtube.com/watch?v=${entry.id}`
+        const video = databaseService.addVideo({
+          videoId: entry.id,
+          url,
+          title: entry.title.toString() || 'Untitled',
+          thumbnailUrl: entry.best_thumbnail?.url || entry.thumbnails?.[0]?.url || '',
+          duration: entry.duration?.seconds || 0,
+          channelName: channel.name,
+          description: entry.description || undefined,
+          uploadDate: published?.toISOString().split('T')[0]
+        })
+        added.push(video)
+
+        if (!isFirstCheck && matchesRules(channel, { title: video.title, duration: video.duration, published })) {
+          try {
+            queueService.enqueue(video.videoId, url)
+          } catch (error) {
+            console.error('Failed to enqueue new channel video:', video.videoId, error)
+          }
+        }
+      }
+
+      thumbnailService.enqueue(added.map(video => video.videoId))
+      databaseService.updateChannelChecked(channelId)
+      console.log(`Checked channel ${channel.name}: ${added.length} new videos`)
+
+      if (added.length > 0) {
+        const event: NewVideosEvent = { channel, videos: added }
+        this.emit('newVideos', event)
+      }
+      return added
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      databaseService.updateChannelChecked(channelId, message)
+      throw error
+    }
+  }
+
+  /**
+   * Check every channel whose last check is older than the configured interval
+   */
+  async checkDueChannels() {
+    if (this.checking) {
+      return
+    }
+    this.checking = true
+
+    try {
+      const intervalMs = settingsService.get('channelCheckIntervalMinutes') * 60 * 1000
+      for (const channel of databaseService.getAllChannels()) {
+        const lastChecked = channel.lastCheckedAt ? parseDbTimestamp(channel.lastCheckedAt).getTime() : 0
+        if (Date.now() - lastChecked < intervalMs) {
+          continue
+        }
+
+        try {
+          await this.checkChannel(channel.channelId)
+        } catch (error) {
+          console.error('Channel check failed:', channel.name, error)
+        }
+      }
+    } finally {
+      this.checking = false
+    }
+  }
+
+  /**
+   * Start polling subscribed channels in the background
+   */
+  startScheduler() {
+    if (this.timer) {
+      return
+    }
+    this.timer = setInterval(() => this.checkDueChannels(), SCHEDULER_TICK_MS)
+    this.checkDueChannels()
+    console.log('Channel scheduler started')
+  }
+
+  stopScheduler() {
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+  }
+}
+
+export const channelService = new ChannelService()
@@ -4,10 +4,23 @@ import { app } from 'electron'
 import fs from 'fs'
 import { fileURLToPath } from 'url'
 import { dirname } from 'path'
+import type { DownloadOptions } from './format.service.js'
+import { migrations, MigrationError } from './migrations.js'
+import type { Cue } from './captions.js'
+import type { VideoChapter, VideoDetails } from './video-details.js'
+import { parseSearchQuery, parseSnippet, SNIPPET_START, SNIPPET_END, type SnippetSegment } from './search-query.js'
+
+// Limits for transcript hits in search results
+const MAX_TRANSCRIPT_MATCHES = 500
+const MAX_TRANSCRIPT_MATCHES_PER_VIDEO = 5
 
 const __filename = fileURLToPath(import.meta.url)
 const __dirname = dirname(__filename)
 
+export type DownloadStatus = 'pending' | 'queued' | 'downloading' | 'paused' | 'completed' | 'failed'
+
+export type AvailabilityStatus = 'available' | 'private' | 'removed' | 'region_blocked' | 'restricted'
+
 export interface Video {
   id: number
   videoId: string
@@ -21,8 +34,19 @@ export interface Video {
   uploadDate?: string
   filePath?: string
   fileSize?: number
-  downloadStatus: 'pending' | 'downloading' | 'completed' | 'failed'
+  downloadStatus: DownloadStatus
   downloadProgress: number
+  downloadAttempts: number
+  lastErrorCode?: string
+  lastErrorMessage?: string
+  /** Whether the video can still be watched on YouTube, as of the last metadata refresh */
+  availability: AvailabilityStatus
+  metadataCheckedAt?: string
+  channelId?: string
+  viewCount?: number
+  likeCount?: number
+  keywords: string[]
+  category?: string
   createdAt: string
   updatedAt: string
 }
@@ -40,12 +64,235 @@ interface DbVideo {
   upload_date?: string
   file_path?: string
   file_size?: number
-  download_status: 'pending' | 'downloading' | 'completed' | 'failed'
+  download_status: DownloadStatus
   download_progress: number
+  download_attempts: number
+  last_error_code?: string
+  last_error_message?: string
+  availability: AvailabilityStatus
+  metadata_checked_at?: string
+  channel_id?: string
+  view_count?: number
+  like_count?: number
+  keywords?: string
+  category?: string
+  created_at: string
+  updated_at: string
+}
+
+export interface AvailabilityRecord {
+  id: number
+  videoId: string
+  status: AvailabilityStatus
+  reason?: string
+  checkedAt: string
+}
+
+export interface DownloadJob {
+  id: number
+  videoId: string
+  url: string
+  priority: number
+  status: 'queued' | 'active'
+  options?: DownloadOptions
+  createdAt: string
+}
+
+interface DbDownloadJob {
+  id: number
+  video_id: string
+  url: string
+  priority: number
+  status: 'queued' | 'active'
+  options?: string
+  created_at: string
+}
+
+export interface PartialDownload {
+  videoId: string
+  itag: number
+  contentLength: number
+  audioItag?: number
+  audioContentLength?: number
+  downloadedBytes: number
+  updatedAt: string
+}
+
+interface DbPartialDownload {
+  video_id: string
+  itag: number
+  content_length: number
+  audio_itag: number | null
+  audio_content_length: number | null
+  downloaded_bytes: number
+  updated_at: string
+}
+
+export interface Playlist {
+  id: number
+  playlistId: string
+  url: string
+  title: string
+  description?: string
+  channelName?: string
+  thumbnailUrl?: string
+  videoCount: number
+  createdAt: string
+  updatedAt: string
+}
+
+interface DbPlaylist {
+  id: number
+  playlist_id: string
+  url: string
+  title: string
+  description?: string
+  channel_name?: string
+  thumbnail_url?: string
+  video_count: number
+  created_at: string
+  updated_at: string
+}
+
+/**
+ * Per-channel rules deciding which new uploads are downloaded automatically
+ */
+export interface ChannelRules {
+  autoDownload: boolean
+  /** Skip videos longer than this many seconds */
+  maxDuration?: number
+  /** Comma-separated keywords, at least one must appear in the title */
+  keywordFilter?: string
+  /** Skip videos published more than this many days ago */
+  maxAgeDays?: number
+}
+
+export interface Channel extends ChannelRules {
+  id: number
+  channelId: string
+  handle?: string
+  name: string
+  url: string
+  thumbnailUrl?: string
+  lastCheckedAt?: string
+  lastCheckError?: string
+  createdAt: string
+}
+
+interface DbChannel {
+  id: number
+  channel_id: string
+  handle?: string
+  name: string
+  url: string
+  thumbnail_url?: string
+  auto_download: number
+  max_duration?: number
+  keyword_filter?: string
+  max_age_days?: number
+  last_checked_at?: string
+  last_check_error?: string
+  created_at: string
+}
+
+export interface Tag {
+  id: number
+  name: string
+  videoCount: number
+}
+
+export interface Collection {
+  id: number
+  name: string
+  description?: string
+  videoCount: number
+  createdAt: string
+  updatedAt: string
+}
+
+interface DbCollection {
+  id: number
+  name: string
+  description?: string
+  video_count: number
   created_at: string
   updated_at: string
 }
 
+export interface WatchProgress {
+  videoId: string
+  /** Last playback position in seconds */
+  position: number
+  duration?: number
+  /** Total seconds actually spent watching, across all sessions */
+  watchTime: number
+  watched: boolean
+  watchedAt?: string
+  lastWatchedAt: string
+}
+
+interface DbWatchProgress {
+  video_id: string
+  position: number
+  duration?: number
+  watch_time: number
+  watched: number
+  watched_at?: string
+  last_watched_at: string
+}
+
+export interface WatchHistoryEntry {
+  id: number
+  videoId: string
+  title: string
+  startedAt: string
+  endedAt: string
+  position: number
+  watchTime: number
+}
+
+export type SubtitleKind = 'manual' | 'auto'
+
+export interface ChannelStorage {
+  channelName: string
+  videos: number
+  bytes: number
+}
+
+export interface Subtitle {
+  id: number
+  videoId: string
+  languageCode: string
+  name: string
+  kind: SubtitleKind
+  filePath: string
+  createdAt: string
+}
+
+interface DbSubtitle {
+  id: number
+  video_id: string
+  language_code: string
+  name: string
+  kind: SubtitleKind
+  file_path: string
+  created_at: string
+}
+
+export interface TranscriptMatch {
+  /** Where the matching caption starts, in milliseconds */
+  startMs: number
+  text: SnippetSegment[]
+}
+
+export interface VideoSearchResult {
+  video: Video
+  /** Best matching fragment with highlighted terms (absent for filter-only queries) */
+  snippet?: SnippetSegment[]
+  /** Caption segments containing the query, in playback order */
+  transcriptMatches?: TranscriptMatch[]
+}
+
 class DatabaseService {
   private db: Database.Database | null = null
   private dbPath: string
@@ -83,50 +330,193 @@ class DatabaseService {
       fileSize: dbVideo.file_size,
       downloadStatus: dbVideo.download_status,
       downloadProgress: dbVideo.download_progress,
+      downloadAttempts: dbVideo.download_attempts,
+      lastErrorCode: dbVideo.last_error_code,
+      lastErrorMessage: dbVideo.last_error_message,
+      availability: dbVideo.availability,
+      metadataCheckedAt: dbVideo.metadata_checked_at,
+      channelId: dbVideo.channel_id,
+      viewCount: dbVideo.view_count,
+      likeCount: dbVideo.like_count,
+      keywords: dbVideo.keywords ? JSON.parse(dbVideo.keywords) : [],
+      category: dbVideo.category,
       createdAt: dbVideo.created_at,
       updatedAt: dbVideo.updated_at
     }
   }
 
-  initialize() {
-    this.db = new Database(this.dbPath)
-    this.createTables()
-    console.log('Database initialized')
+  private mapDbDownloadJob(dbJob: DbDownloadJob): DownloadJob {
+    return {
+      id: dbJob.id,
+      videoId: dbJob.video_id,
+      url: dbJob.url,
+      priority: dbJob.priority,
+      status: dbJob.status,
+      options: dbJob.options ? JSON.parse(dbJob.options) : undefined,
+      createdAt: dbJob.created_at
+    }
+  }
+
+  private mapDbPlaylist(dbPlaylist: DbPlaylist): Playlist {
+    return {
+      id: dbPlaylist.id,
+      playlistId: dbPlaylist.playlist_id,
+      url: dbPlaylist.url,
+      title: dbPlaylist.title,
+      description: dbPlaylist.description,
+      channelName: dbPlaylist.channel_name,
+      thumbnailUrl: dbPlaylist.thumbnail_url,
+      videoCount: dbPlaylist.video_count,
+      createdAt: dbPlaylist.created_at,
+      updatedAt: dbPlaylist.updated_at
+    }
+  }
+
+  private mapDbChannel(dbChannel: DbChannel): Channel {
+    return {
+      id: dbChannel.id,
+      channelId: dbChannel.channel_id,
+      handle: dbChannel.handle,
+      name: dbChannel.name,
+      url: dbChannel.url,
+      thumbnailUrl: dbChannel.thumbnail_url,
+      autoDownload: dbChannel.auto_download === 1,
+      maxDuration: dbChannel.max_duration ?? undefined,
+      keywordFilter: dbChannel.keyword_filter ?? undefined,
+      maxAgeDays: dbChannel.max_age_days ?? undefined,
+      lastCheckedAt: dbChannel.last_checked_at,
+      lastCheckError: dbChannel.last_check_error,
+      createdAt: dbChannel.created_at
+    }
+  }
+
+  private mapDbCollection(dbCollection: DbCollection): Collection {
+    return {
+      id: dbCollection.id,
+      name: dbCollection.name,
+      description: dbCollection.description,
+      videoCount: dbCollection.video_count,
+      createdAt: dbCollection.created_at,
+      updatedAt: dbCollection.updated_at
+    }
+  }
+
+  private mapDbWatchProgress(dbProgress: DbWatchProgress): WatchProgress {
+    return {
+      videoId: dbProgress.video_id,
+      position: dbProgress.position,
+      duration: dbProgress.duration,
+      watchTime: dbProgress.watch_time,
+      watched: dbProgress.watched === 1,
+      watchedAt: dbProgress.watched_at,
+      lastWatchedAt: dbProgress.last_watched_at
+    }
+  }
+
+  private mapDbSubtitle(dbSubtitle: DbSubtitle): Subtitle {
+    return {
+      id: dbSubtitle.id,
+      videoId: dbSubtitle.video_id,
+      languageCode: dbSubtitle.language_code,
+      name: dbSubtitle.name,
+      kind: dbSubtitle.kind,
+      filePath: dbSubtitle.file_path,
+      createdAt: dbSubtitle.created_at
+    }
+  }
+
+  private mapDbPartialDownload(dbPartial: DbPartialDownload): PartialDownload {
+    return {
+      videoId: dbPartial.video_id,
+      itag: dbPartial.itag,
+      contentLength: dbPartial.content_length,
+      audioItag: dbPartial.audio_itag ?? undefined,
+      audioContentLength: dbPartial.audio_content_length ?? undefined,
+      downloadedBytes: dbPartial.downloaded_bytes,
+      updatedAt: dbPartial.updated_at
+    }
+  }
+
+  /**
+   * Open the database, applying pending migrations
+   * With readonly (used by the command line while the app may be running) the
+   * schema is left alone and must already be up to date.
+   */
+  initialize(options: { readonly?: boolean } = {}) {
+    const isNewDatabase = !fs.existsSync(this.dbPath)
+    if (options.readonly && isNewDatabase) {
+      throw new Error(`No library found at ${this.dbPath}`)
+    }
+    this.db = new Database(this.dbPath, { readonly: options.readonly })
+    this.db.pragma('foreign_keys = ON')
+
+    try {
+      if (options.readonly) {
+        this.checkSchemaVersion()
+      } else {
+        this.runMigrations(isNewDatabase)
+      }
+    } catch (error) {
+      this.close()
+      throw error
+    }
+    console.log(options.readonly ? 'Database opened read-only' : 'Database initialized')
+  }
+
+  private checkSchemaVersion() {
+    if (!this.db) throw new Error('Database not initialized')
+
+    const currentVersion = this.db.pragma('user_version', { simple: true }) as number
+    const latestVersion = migrations[migrations.length - 1].version
+    if (currentVersion !== latestVersion) {
+      throw new Error(
+        `Database version ${currentVersion} doesn't match this version of Tube Crawler (${latestVersion}). Open the app once to upgrade it.`
+      )
+    }
   }
 
-  private createTables() {
+  /**
+   * Bring the schema up to date
+   * The database file is copied before the first pending migration runs. A
+   * failed migration is rolled back and reported as a MigrationError; earlier
+   * migrations stay applied.
+   */
+  private runMigrations(isNewDatabase: boolean) {
     if (!this.db) throw new Error('Database not initialized')
 
-    this.db.exec(`
-      CREATE TABLE IF NOT EXISTS videos (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        video_id TEXT UNIQUE NOT NULL,
-        url TEXT NOT NULL,
-        title TEXT NOT NULL,
-        description TEXT,
-        thumbnail_url TEXT,
-        thumbnail_path TEXT,
-        duration INTEGER,
-        channel_name TEXT,
-        upload_date TEXT,
-        file_path TEXT,
-        file_size INTEGER,
-        download_status TEXT DEFAULT 'pending',
-        download_progress INTEGER DEFAULT 0,
-        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
-      );
+    const currentVersion = this.db.pragma('user_version', { simple: true }) as number
+    const latestVersion = migrations[migrations.length - 1].version
+
+    if (currentVersion > latestVersion) {
+      throw new Error(
+        `Database version ${currentVersion} is newer than this app supports (${latestVersion}). Please update Tube Crawler.`
+      )
+    }
 
-      CREATE INDEX IF NOT EXISTS idx_video_id ON videos(video_id);
-      CREATE INDEX IF NOT EXISTS idx_title ON videos(title);
-      CREATE INDEX IF NOT EXISTS idx_download_status ON videos(download_status);
+    const pending = migrations.filter(m => m.version > currentVersion)
+    if (pending.length === 0) {
+      return
+    }
 
-      CREATE TRIGGER IF NOT EXISTS update_videos_timestamp
-      AFTER UPDATE ON videos
-      BEGIN
-        UPDATE videos SET updated_at = CURRENT_TIMESTAMP WHERE id = NEW.id;
-      END;
-    `)
+    let backupPath: string | undefined
+    if (!isNewDatabase) {
+      backupPath = `${this.dbPath}.v${currentVersion}.bak`
+      fs.copyFileSync(this.dbPath, backupPath)
+      console.log('Database backed up before migrating:', backupPath)
+    }
+
+    for (const migration of pending) {
+      try {
+        this.db.transaction(() => {
+          migration.up(this.db!)
+          this.db!.pragma(`user_version = ${migration.version}`)
+        })()
+        console.log(`Applied migration ${migration.version}: ${migration.description}`)
+      } catch (error) {
+        console.error(`Migration ${migration.version} failed:`, error)
+        throw new MigrationError(migration.version, migration.description, error, backupPath)
+      }
+    }
   }
 
   addVideo(metadata: {
@@ -186,22 +576,95 @@ class DatabaseService {
     return dbVideos.map(dbVideo => this.mapDbVideoToVideo(dbVideo))
   }
 
-  searchVideos(query: string): Video[] {
+  /**
+   * Full-text search ranked by bm25 (title matches weigh most)
+   * Videos that only match in their transcript follow the metadata matches.
+   * See search-query.ts for the supported syntax.
+   */
+  searchVideos(query: string): VideoSearchResult[] {
     if (!this.db) throw new Error('Database not initialized')
 
+    const { match, transcriptMatch, filters } = parseSearchQuery(query)
+
+    const conditions: string[] = []
+    const params: (string | number)[] = []
+    for (const channel of filters.channels) {
+      conditions.push("v.channel_name LIKE ? ESCAPE '\\'")
+      params.push(`%${channel.replace(/[\\%_]/g, c => '\\' + c)}%`)
+    }
+    if (filters.minDuration !== undefined) {
+      conditions.push('v.duration >= ?')
+      params.push(filters.minDuration)
+    }
+    if (filters.maxDuration !== undefined) {
+      conditions.push('v.duration <= ?')
+      params.push(filters.maxDuration)
+    }
+
+    if (!match) {
+      const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''
+      const stmt = this.db.prepare(`SELECT v.* FROM videos v ${where} ORDER BY v.created_at DESC`)
+      const dbVideos = stmt.all(...params) as DbVideo[]
+      return dbVideos.map(dbVideo => ({ video: this.mapDbVideoToVideo(dbVideo) }))
+    }
+
     const stmt = this.db.prepare(`
-      SELECT * FROM videos
-      WHERE title LIKE ? OR channel_name LIKE ?
-      ORDER BY created_at DESC
+      SELECT v.*, snippet(videos_fts, -1, ?, ?, '…', 16) AS snippet
+      FROM videos_fts
+      JOIN videos v ON v.id = videos_fts.rowid
+      WHERE videos_fts MATCH ?${conditions.map(c => ` AND ${c}`).join('')}
+      ORDER BY bm25(videos_fts, 10.0, 1.0, 5.0)
     `)
-    const searchTerm = `%${query}%`
-    const dbVideos = stmt.all(searchTerm, searchTerm) as DbVideo[]
-    return dbVideos.map(dbVideo => this.mapDbVideoToVideo(dbVideo))
+    const rows = stmt.all(SNIPPET_START, SNIPPET_END, match, ...params) as (DbVideo & { snippet: string })[]
+    const results: VideoSearchResult[] = rows.map(row => ({
+      video: this.mapDbVideoToVideo(row),
+      snippet: parseSnippet(row.snippet)
+    }))
+
+    if (!transcriptMatch) {
+      return results
+    }
+
+    // Best matching segments first, so each video keeps its most relevant ones
+    const segmentStmt = this.db.prepare(`
+      SELECT ts.video_id, ts.start_ms, highlight(transcript_fts, 0, ?, ?) AS text
+      FROM transcript_fts
+      JOIN transcript_segments ts ON ts.id = transcript_fts.rowid
+      JOIN videos v ON v.video_id = ts.video_id
+      WHERE transcript_fts MATCH ?${conditions.map(c => ` AND ${c}`).join('')}
+      ORDER BY bm25(transcript_fts)
+      LIMIT ?
+    `)
+    const segments = segmentStmt.all(
+      SNIPPET_START, SNIPPET_END, transcriptMatch, ...params, MAX_TRANSCRIPT_MATCHES
+    ) as { video_id: string; start_ms: number; text: string }[]
+
+    const byVideoId = new Map(results.map(result => [result.video.videoId, result]))
+    for (const segment of segments) {
+      let result = byVideoId.get(segment.video_id)
+      if (!result) {
+        const video = this.getVideoByVideoId(segment.video_id)
+        if (!video) continue
+        result = { video }
+        byVideoId.set(segment.video_id, result)
+        results.push(result)
+      }
+
+      result.transcriptMatches = result.transcriptMatches || []
+      if (result.transcriptMatches.length < MAX_TRANSCRIPT_MATCHES_PER_VIDEO) {
+        result.transcriptMatches.push({ startMs: segment.start_ms, text: parseSnippet(segment.text) })
+      }
+    }
+
+    for (const result of results) {
+      result.transcriptMatches?.sort((a, b) => a.startMs - b.startMs)
+    }
+    return results
   }
 
   updateDownloadStatus(
     videoId: string,
-    status: 'pending' | 'downloading' | 'completed' | 'failed',
+    status: DownloadStatus,
     progress: number = 0
   ) {
     if (!this.db) throw new Error('Database not initialized')
@@ -228,18 +691,1052 @@ class DatabaseService {
     stmt.run(filePath, fileSize, videoId)
   }
 
-  deleteVideo(id: number) {
+  /**
+   * Update metadata that can change after a video was added
+   */
+  updateVideoMetadata(videoId: string, metadata: {
+    title: string
+    description?: string
+    thumbnailUrl?: string
+    duration?: number
+    channelName?: string
+  }) {
     if (!this.db) throw new Error('Database not initialized')
 
-    const stmt = this.db.prepare('DELETE FROM videos WHERE id = ?')
-    stmt.run(id)
+    const stmt = this.db.prepare(`
+      UPDATE videos
+      SET title = ?,
+          description = ?,
+          thumbnail_url = COALESCE(?, thumbnail_url),
+          duration = COALESCE(?, duration),
+          channel_name = COALESCE(?, channel_name)
+      WHERE video_id = ?
+    `)
+    stmt.run(
+      metadata.title,
+      metadata.description || null,
+      metadata.thumbnailUrl || null,
+      metadata.duration || null,
+      metadata.channelName || null,
+      videoId
+    )
   }
 
-  deleteVideoByVideoId(videoId: string) {
+  /**
+   * Store the extended metadata of a video and replace its chapters
+   */
+  updateVideoDetails(videoId: string, details: VideoDetails) {
     if (!this.db) throw new Error('Database not initialized')
 
-    const stmt = this.db.prepare('DELETE FROM videos WHERE video_id = ?')
-    stmt.run(videoId)
+    this.db.transaction(() => {
+      this.db!.prepare(`
+        UPDATE videos
+        SET channel_id = COALESCE(?, channel_id),
+            upload_date = COALESCE(?, upload_date),
+            view_count = COALESCE(?, view_count),
+            like_count = COALESCE(?, like_count),
+            keywords = ?,
+            category = COALESCE(?, category)
+        WHERE video_id = ?
+      `).run(
+        details.channelId || null,
+        details.publishDate || null,
+        details.viewCount ?? null,
+        details.likeCount ?? null,
+        JSON.stringify(details.keywords),
+        details.category || null,
+        videoId
+      )
+
+      this.db!.prepare('DELETE FROM chapters WHERE video_id = ?').run(videoId)
+      const insert = this.db!.prepare('INSERT INTO chapters (video_id, start_ms, title) VALUES (?, ?, ?)')
+      for (const chapter of details.chapters) {
+        insert.run(videoId, chapter.startMs, chapter.title)
+      }
+    })()
+  }
+
+  getChapters(videoId: string): VideoChapter[] {
+    if (!this.db) throw new Error('Database not initialized')
+
+    const stmt = this.db.prepare(
+      'SELECT title, start_ms AS startMs FROM chapters WHERE video_id = ? ORDER BY start_ms'
+    )
+    return stmt.all(videoId) as VideoChapter[]
+  }
+
+  /**
+   * Record the result of an availability check
+   * A history entry is only added when the status changes. Returns the previous status.
+   */
+  recordAvailability(videoId: string, status: AvailabilityStatus, reason?: string): AvailabilityStatus | undefined {
+    if (!this.db) throw new Error('Database not initialized')
+
+    return this.db.transaction(() => {
+      const last = this.db!.prepare(
+        'SELECT status FROM availability_history WHERE video_id = ? ORDER BY id DESC LIMIT 1'
+      ).get(videoId) as { status: AvailabilityStatus } | undefined
+
+      if (last?.status !== status) {
+        this.db!.prepare('INSERT INTO availability_history (video_id, status, reason) VALUES (?, ?, ?)')
+          .run(videoId, status, reason || null)
+      }
+      this.db!.prepare('UPDATE videos SET availability = ?, metadata_checked_at = CURRENT_TIMESTAMP WHERE video_id = ?')
+        .run(status, videoId)
+
+      return last?.status
+    })()
+  }
+
+  getAvailabilityHistory(videoId: string): AvailabilityRecord[] {
+    if (!this.db) throw new Error('Database not initialized')
+
+    const stmt = this.db.prepare(`
+      SELECT id, video_id AS videoId, status, reason, checked_at AS checkedAt
+      FROM availability_history
+      WHERE video_id = ?
+      ORDER BY id DESC
+    `)
+    return stmt.all(videoId) as AvailabilityRecord[]
+  }
+
+  /**
+   * Videos whose metadata hasn't been refreshed for the given number of hours, never-checked first
+   */
+  getVideosDueForRefresh(maxAgeHours: number, limit: number): Video[] {
+    if (!this.db) throw new Error('Database not initialized')
+
+    const stmt = this.db.prepare(`
+      SELECT * FROM videos
+      WHERE metadata_checked_at IS NULL OR metadata_checked_at < datetime('now', ?)
+      ORDER BY metadata_checked_at IS NOT NULL, metadata_checked_at
+      LIMIT ?
+    `)
+    const dbVideos = stmt.all(`-${maxAgeHours} hours`, limit) as DbVideo[]
+    return dbVideos.map(dbVideo => this.mapDbVideoToVideo(dbVideo))
+  }
+
+  updateThumbnailPath(videoId: string, thumbnailPath: string | null) {
+    if (!this.db) throw new Error('Database not initialized')
+
+    const stmt = this.db.prepare('UPDATE videos SET thumbnail_path = ? WHERE video_id = ?')
+    stmt.run(thumbnailPath, videoId)
+  }
+
+  /**
+   * Videos whose thumbnail hasn't been cached locally yet
+   */
+  getVideosWithoutThumbnail(): Video[] {
+    if (!this.db) throw new Error('Database not initialized')
+
+    const stmt = this.db.prepare('SELECT * FROM videos WHERE thumbnail_path IS NULL ORDER BY created_at DESC')
+    const dbVideos = stmt.all() as DbVideo[]
+    return dbVideos.map(dbVideo => this.mapDbVideoToVideo(dbVideo))
+  }
+
+  /**
+   * Downloaded bytes per channel, largest first
+   */
+  getStorageByChannel(): ChannelStorage[] {
+    if (!this.db) throw new Error('Database not initialized')
+
+    const rows = this.db.prepare(`
+      SELECT channel_name, COUNT(*) AS videos, COALESCE(SUM(file_size), 0) AS bytes
+      FROM videos
+      WHERE download_status = 'completed'
+      GROUP BY channel_name
+      ORDER BY bytes DESC
+    `).all() as { channel_name: string; videos: number; bytes: number }[]
+    return rows.map(row => ({ channelName: row.channel_name, videos: row.videos, bytes: row.bytes }))
+  }
+
+  /**
+   * Largest downloaded videos
+   */
+  getLargestDownloads(limit: number): Video[] {
+    if (!this.db) throw new Error('Database not initialized')
+
+    const stmt = this.db.prepare(`
+      SELECT * FROM videos
+      WHERE download_status = 'completed' AND file_size IS NOT NULL
+      ORDER BY file_size DESC
+      LIMIT ?
+    `)
+    const dbVideos = stmt.all(limit) as DbVideo[]
+    return dbVideos.map(dbVideo => this.mapDbVideoToVideo(dbVideo))
+  }
+
+  /**
+   * Point stored file paths under `fromDir` to `toDir` after the library folder moved
+   */
+  rewriteFilePaths(fromDir: string, toDir: string): number {
+    if (!this.db) throw new Error('Database not initialized')
+
+    const prefix = fromDir.endsWith(path.sep) ? fromDir : fromDir + path.sep
+    const relocate = (filePath: string) => path.join(toDir, filePath.slice(prefix.length))
+    let updated = 0
+
+    this.db.transaction(() => {
+      for (const table of ['videos', 'subtitles']) {
+        const rows = this.db!.prepare(`SELECT rowid, file_path FROM ${table} WHERE file_path IS NOT NULL`)
+          .all() as { rowid: number; file_path: string }[]
+        const update = this.db!.prepare(`UPDATE ${table} SET file_path = ? WHERE rowid = ?`)
+        for (const row of rows) {
+          if (row.file_path.startsWith(prefix)) {
+            update.run(relocate(row.file_path), row.rowid)
+            updated++
+          }
+        }
+      }
+    })()
+
+    return updated
+  }
+
+  /**
+   * Record the latest download failure and how many attempts were made
+   */
+  updateDownloadError(videoId: string, code: string, message: string, attempts: number) {
+    if (!this.db) throw new Error('Database not initialized')
+
+    const stmt = this.db.prepare(`
+      UPDATE videos
+      SET last_error_code = ?, last_error_message = ?, download_attempts = ?
+      WHERE video_id = ?
+    `)
+    stmt.run(code, message, attempts, videoId)
+  }
+
+  clearDownloadError(videoId: string) {
+    if (!this.db) throw new Error('Database not initialized')
+
+    const stmt = this.db.prepare(`
+      UPDATE videos
+      SET last_error_code = NULL, last_error_message = NULL, download_attempts = 0
+      WHERE video_id = ?
+    `)
+    stmt.run(videoId)
+  }
+
+  deleteVideo(id: number) {
+    if (!this.db) throw new Error('Database not initialized')
+
+    const stmt = this.db.prepare('DELETE FROM videos WHERE id = ?')
+    stmt.run(id)
+  }
+
+  deleteVideoByVideoId(videoId: string) {
+    if (!this.db) throw new Error('Database not initialized')
+
+    const stmt = this.db.prepare('DELETE FROM videos WHERE video_id = ?')
+    stmt.run(videoId)
+  }
+
+  /**
+   * Forget a video's downloaded file so it can be downloaded again
+   */
+  clearDownloadedFile(videoId: string) {
+    if (!this.db) throw new Error('Database not initialized')
+
+    const stmt = this.db.prepare(`
+      UPDATE videos
+      SET download_status = 'pending', download_progress = 0, file_path = NULL, file_size = NULL
+      WHERE video_id = ?
+    `)
+    stmt.run(videoId)
+  }
+
+  /**
+   * Reset rows left in 'downloading' state (e.g. after a crash) and return them
+   */
+  resetInterruptedDownloads(): Video[] {
+    if (!this.db) throw new Error('Database not initialized')
+
+    const dbVideos = this.db.prepare(`
+      SELECT * FROM videos WHERE download_status = 'downloading'
+    `).all() as DbVideo[]
+
+    this.db.prepare(`
+      UPDATE videos SET download_status = 'queued', download_progress = 0
+      WHERE download_status = 'downloading'
+    `).run()
+
+    return dbVideos.map(dbVideo => this.mapDbVideoToVideo(dbVideo))
+  }
+
+  /**
+   * Add a job to the download queue (no-op if the video is already queued)
+   */
+  enqueueDownloadJob(videoId: string, url: string, priority: number = 0, options?: DownloadOptions): DownloadJob {
+    if (!this.db) throw new Error('Database not initialized')
+
+    this.db.prepare(`
+      INSERT INTO download_jobs (video_id, url, priority, options)
+      VALUES (?, ?, ?, ?)
+      ON CONFLICT(video_id) DO NOTHING
+    `).run(videoId, url, priority, options ? JSON.stringify(options) : null)
+
+    return this.getDownloadJob(videoId)!
+  }
+
+  getDownloadJob(videoId: string): DownloadJob | undefined {
+    if (!this.db) throw new Error('Database not initialized')
+
+    const stmt = this.db.prepare('SELECT * FROM download_jobs WHERE video_id = ?')
+    const dbJob = stmt.get(videoId) as DbDownloadJob | undefined
+    return dbJob ? this.mapDbDownloadJob(dbJob) : undefined
+  }
+
+  /**
+   * Get all jobs, active first, then by priority (highest first) and insertion order
+   */
+  getDownloadJobs(): DownloadJob[] {
+    if (!this.db) throw new Error('Database not initialized')
+
+    const stmt = this.db.prepare(`
+      SELECT * FROM download_jobs
+      ORDER BY status = 'active' DESC, priority DESC, id ASC
+    `)
+    const dbJobs = stmt.all() as DbDownloadJob[]
+    return dbJobs.map(dbJob => this.mapDbDownloadJob(dbJob))
+  }
+
+  /**
+   * Get the next queued job to start (highest priority, then FIFO)
+   */
+  getNextQueuedJob(): DownloadJob | undefined {
+    if (!this.db) throw new Error('Database not initialized')
+
+    const stmt = this.db.prepare(`
+      SELECT * FROM download_jobs
+      WHERE status = 'queued'
+      ORDER BY priority DESC, id ASC
+      LIMIT 1
+    `)
+    const dbJob = stmt.get() as DbDownloadJob | undefined
+    return dbJob ? this.mapDbDownloadJob(dbJob) : undefined
+  }
+
+  updateDownloadJobStatus(videoId: string, status: 'queued' | 'active') {
+    if (!this.db) throw new Error('Database not initialized')
+
+    const stmt = this.db.prepare('UPDATE download_jobs SET status = ? WHERE video_id = ?')
+    stmt.run(status, videoId)
+  }
+
+  updateDownloadJobPriority(videoId: string, priority: number) {
+    if (!this.db) throw new Error('Database not initialized')
+
+    const stmt = this.db.prepare('UPDATE download_jobs SET priority = ? WHERE video_id = ?')
+    stmt.run(priority, videoId)
+  }
+
+  /**
+   * Move jobs interrupted while running back to the queue
+   */
+  resetActiveDownloadJobs() {
+    if (!this.db) throw new Error('Database not initialized')
+
+    this.db.prepare(`UPDATE download_jobs SET status = 'queued' WHERE status = 'active'`).run()
+  }
+
+  deleteDownloadJob(videoId: string) {
+    if (!this.db) throw new Error('Database not initialized')
+
+    const stmt = this.db.prepare('DELETE FROM download_jobs WHERE video_id = ?')
+    stmt.run(videoId)
+  }
+
+  /**
+   * Insert or update a playlist by its YouTube playlist ID
+   */
+  upsertPlaylist(playlist: {
+    playlistId: string
+    url: string
+    title: string
+    description?: string
+    channelName?: string
+    thumbnailUrl?: string
+  }): Playlist {
+    if (!this.db) throw new Error('Database not initialized')
+
+    const stmt = this.db.prepare(`
+      INSERT INTO playlists (playlist_id, url, title, description, channel_name, thumbnail_url)
+      VALUES (?, ?, ?, ?, ?, ?)
+      ON CONFLICT(playlist_id) DO UPDATE SET
+        url = excluded.url,
+        title = excluded.title,
+        description = excluded.description,
+        channel_name = excluded.channel_name,
+        thumbnail_url = excluded.thumbnail_url,
+        updated_at = CURRENT_TIMESTAMP
+    `)
+    stmt.run(
+      playlist.playlistId,
+      playlist.url,
+      playlist.title,
+      playlist.description || null,
+      playlist.channelName || null,
+      playlist.thumbnailUrl || null
+    )
+
+    return this.getPlaylist(playlist.playlistId)!
+  }
+
+  getPlaylist(playlistId: string): Playlist | undefined {
+    if (!this.db) throw new Error('Database not initialized')
+
+    const stmt = this.db.prepare(`
+      SELECT p.*, (SELECT COUNT(*) FROM playlist_videos pv WHERE pv.playlist_id = p.playlist_id) AS video_count
+      FROM playlists p
+      WHERE p.playlist_id = ?
+    `)
+    const dbPlaylist = stmt.get(playlistId) as DbPlaylist | undefined
+    return dbPlaylist ? this.mapDbPlaylist(dbPlaylist) : undefined
+  }
+
+  getAllPlaylists(): Playlist[] {
+    if (!this.db) throw new Error('Database not initialized')
+
+    const stmt = this.db.prepare(`
+      SELECT p.*, (SELECT COUNT(*) FROM playlist_videos pv WHERE pv.playlist_id = p.playlist_id) AS video_count
+      FROM playlists p
+      ORDER BY p.created_at DESC
+    `)
+    const dbPlaylists = stmt.all() as DbPlaylist[]
+    return dbPlaylists.map(dbPlaylist => this.mapDbPlaylist(dbPlaylist))
+  }
+
+  /**
+   * Replace the videos linked to a playlist, keeping the given order
+   */
+  setPlaylistVideos(playlistId: string, videoIds: string[]) {
+    if (!this.db) throw new Error('Database not initialized')
+
+    const deleteStmt = this.db.prepare('DELETE FROM playlist_videos WHERE playlist_id = ?')
+    const insertStmt = this.db.prepare(`
+      INSERT OR IGNORE INTO playlist_videos (playlist_id, video_id, position) VALUES (?, ?, ?)
+    `)
+
+    this.db.transaction(() => {
+      deleteStmt.run(playlistId)
+      videoIds.forEach((videoId, position) => insertStmt.run(playlistId, videoId, position))
+    })()
+  }
+
+  getPlaylistVideos(playlistId: string): Video[] {
+    if (!this.db) throw new Error('Database not initialized')
+
+    const stmt = this.db.prepare(`
+      SELECT v.* FROM videos v
+      JOIN playlist_videos pv ON pv.video_id = v.video_id
+      WHERE pv.playlist_id = ?
+      ORDER BY pv.position ASC
+    `)
+    const dbVideos = stmt.all(playlistId) as DbVideo[]
+    return dbVideos.map(dbVideo => this.mapDbVideoToVideo(dbVideo))
+  }
+
+  deletePlaylist(playlistId: string) {
+    if (!this.db) throw new Error('Database not initialized')
+
+    const stmt = this.db.prepare('DELETE FROM playlists WHERE playlist_id = ?')
+    stmt.run(playlistId)
+  }
+
+  /**
+   * Subscribe to a channel (fails if already subscribed)
+   */
+  addChannel(channel: {
+    channelId: string
+    handle?: string
+    name: string
+    url: string
+    thumbnailUrl?: string
+  }, rules: ChannelRules): Channel {
+    if (!this.db) throw new Error('Database not initialized')
+
+    const stmt = this.db.prepare(`
+      INSERT INTO channels (
+        channel_id, handle, name, url, thumbnail_url,
+        auto_download, max_duration, keyword_filter, max_age_days
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `)
+    stmt.run(
+      channel.channelId,
+      channel.handle || null,
+      channel.name,
+      channel.url,
+      channel.thumbnailUrl || null,
+      rules.autoDownload ? 1 : 0,
+      rules.maxDuration ?? null,
+      rules.keywordFilter || null,
+      rules.maxAgeDays ?? null
+    )
+
+    return this.getChannel(channel.channelId)!
+  }
+
+  getChannel(channelId: string): Channel | undefined {
+    if (!this.db) throw new Error('Database not initialized')
+
+    const stmt = this.db.prepare('SELECT * FROM channels WHERE channel_id = ?')
+    const dbChannel = stmt.get(channelId) as DbChannel | undefined
+    return dbChannel ? this.mapDbChannel(dbChannel) : undefined
+  }
+
+  getAllChannels(): Channel[] {
+    if (!this.db) throw new Error('Database not initialized')
+
+    const stmt = this.db.prepare('SELECT * FROM channels ORDER BY name COLLATE NOCASE')
+    const dbChannels = stmt.all() as DbChannel[]
+    return dbChannels.map(dbChannel => this.mapDbChannel(dbChannel))
+  }
+
+  updateChannelRules(channelId: string, rules: ChannelRules) {
+    if (!this.db) throw new Error('Database not initialized')
+
+    const stmt = this.db.prepare(`
+      UPDATE channels
+      SET auto_download = ?, max_duration = ?, keyword_filter = ?, max_age_days = ?
+      WHERE channel_id = ?
+    `)
+    stmt.run(
+      rules.autoDownload ? 1 : 0,
+      rules.maxDuration ?? null,
+      rules.keywordFilter || null,
+      rules.maxAgeDays ?? null,
+      channelId
+    )
+  }
+
+  /**
+   * Record the result of a crawl (error is cleared on success)
+   */
+  updateChannelChecked(channelId: string, error?: string) {
+    if (!this.db) throw new Error('Database not initialized')
+
+    const stmt = this.db.prepare(`
+      UPDATE channels
+      SET last_checked_at = CURRENT_TIMESTAMP, last_check_error = ?
+      WHERE channel_id = ?
+    `)
+    stmt.run(error || null, channelId)
+  }
+
+  deleteChannel(channelId: string) {
+    if (!this.db) throw new Error('Database not initialized')
+
+    const stmt = this.db.prepare('DELETE FROM channels WHERE channel_id = ?')
+    stmt.run(channelId)
+  }
+
+  /**
+   * Record a downloaded subtitle file (replaces an earlier download of the same track)
+   */
+  saveSubtitle(subtitle: {
+    videoId: string
+    languageCode: string
+    name: string
+    kind: SubtitleKind
+    filePath: string
+  }): Subtitle {
+    if (!this.db) throw new Error('Database not initialized')
+
+    const stmt = this.db.prepare(`
+      INSERT INTO subtitles (video_id, language_code, name, kind, file_path)
+      VALUES (?, ?, ?, ?, ?)
+      ON CONFLICT(video_id, language_code, kind) DO UPDATE SET
+        name = excluded.name,
+        file_path = excluded.file_path,
+        created_at = CURRENT_TIMESTAMP
+    `)
+    stmt.run(subtitle.videoId, subtitle.languageCode, subtitle.name, subtitle.kind, subtitle.filePath)
+
+    const dbSubtitle = this.db.prepare(
+      'SELECT * FROM subtitles WHERE video_id = ? AND language_code = ? AND kind = ?'
+    ).get(subtitle.videoId, subtitle.languageCode, subtitle.kind) as DbSubtitle
+    return this.mapDbSubtitle(dbSubtitle)
+  }
+
+  /**
+   * Paths of all downloaded subtitle files
+   */
+  getAllSubtitleFilePaths(): string[] {
+    if (!this.db) throw new Error('Database not initialized')
+
+    const rows = this.db.prepare('SELECT file_path FROM subtitles').all() as { file_path: string }[]
+    return rows.map(row => row.file_path)
+  }
+
+  getSubtitles(videoId: string): Subtitle[] {
+    if (!this.db) throw new Error('Database not initialized')
+
+    const stmt = this.db.prepare(`
+      SELECT * FROM subtitles WHERE video_id = ?
+      ORDER BY kind = 'auto', language_code
+    `)
+    const dbSubtitles = stmt.all(videoId) as DbSubtitle[]
+    return dbSubtitles.map(dbSubtitle => this.mapDbSubtitle(dbSubtitle))
+  }
+
+  deleteSubtitles(videoId: string) {
+    if (!this.db) throw new Error('Database not initialized')
+
+    const stmt = this.db.prepare('DELETE FROM subtitles WHERE video_id = ?')
+    stmt.run(videoId)
+  }
+
+  /**
+   * Replace the indexed transcript of a subtitle track
+   */
+  saveTranscriptSegments(subtitle: Subtitle, cues: Cue[]) {
+    if (!this.db) throw new Error('Database not initialized')
+
+    const deleteStmt = this.db.prepare('DELETE FROM transcript_segments WHERE subtitle_id = ?')
+    const insertStmt = this.db.prepare(`
+      INSERT INTO transcript_segments (subtitle_id, video_id, start_ms, end_ms, text)
+      VALUES (?, ?, ?, ?, ?)
+    `)
+
+    this.db.transaction(() => {
+      deleteStmt.run(subtitle.id)
+      for (const cue of cues) {
+        insertStmt.run(subtitle.id, subtitle.videoId, cue.start, cue.end, cue.text)
+      }
+    })()
+  }
+
+  /**
+   * Subtitle tracks whose text hasn't been indexed yet
+   */
+  getUnindexedSubtitles(): Subtitle[] {
+    if (!this.db) throw new Error('Database not initialized')
+
+    const stmt = this.db.prepare(`
+      SELECT s.* FROM subtitles s
+      WHERE NOT EXISTS (SELECT 1 FROM transcript_segments ts WHERE ts.subtitle_id = s.id)
+    `)
+    const dbSubtitles = stmt.all() as DbSubtitle[]
+    return dbSubtitles.map(dbSubtitle => this.mapDbSubtitle(dbSubtitle))
+  }
+
+  getAllTags(): Tag[] {
+    if (!this.db) throw new Error('Database not initialized')
+
+    const stmt = this.db.prepare(`
+      SELECT t.id, t.name, (SELECT COUNT(*) FROM video_tags vt WHERE vt.tag_id = t.id) AS videoCount
+      FROM tags t
+      ORDER BY t.name COLLATE NOCASE
+    `)
+    return stmt.all() as Tag[]
+  }
+
+  /**
+   * Create a tag, or return the existing one with the same name (case-insensitive)
+   */
+  createTag(name: string): Tag {
+    if (!this.db) throw new Error('Database not initialized')
+
+    this.db.prepare('INSERT INTO tags (name) VALUES (?) ON CONFLICT(name) DO NOTHING').run(name)
+    const tag = this.db.prepare('SELECT id, name FROM tags WHERE name = ?').get(name) as { id: number; name: string }
+    return this.getAllTags().find(t => t.id === tag.id)!
+  }
+
+  renameTag(tagId: number, name: string) {
+    if (!this.db) throw new Error('Database not initialized')
+
+    const stmt = this.db.prepare('UPDATE tags SET name = ? WHERE id = ?')
+    stmt.run(name, tagId)
+  }
+
+  deleteTag(tagId: number) {
+    if (!this.db) throw new Error('Database not initialized')
+
+    const stmt = this.db.prepare('DELETE FROM tags WHERE id = ?')
+    stmt.run(tagId)
+  }
+
+  addTagToVideos(tagId: number, videoIds: string[]) {
+    if (!this.db) throw new Error('Database not initialized')
+
+    const stmt = this.db.prepare('INSERT OR IGNORE INTO video_tags (video_id, tag_id) VALUES (?, ?)')
+    this.db.transaction(() => {
+      for (const videoId of videoIds) {
+        stmt.run(videoId, tagId)
+      }
+    })()
+  }
+
+  removeTagFromVideos(tagId: number, videoIds: string[]) {
+    if (!this.db) throw new Error('Database not initialized')
+
+    const stmt = this.db.prepare('DELETE FROM video_tags WHERE video_id = ? AND tag_id = ?')
+    this.db.transaction(() => {
+      for (const videoId of videoIds) {
+        stmt.run(videoId, tagId)
+      }
+    })()
+  }
+
+  /**
+   * Tag names of every tagged video, keyed by video ID
+   */
+  getTagNamesByVideo(): Map<string, string[]> {
+    if (!this.db) throw new Error('Database not initialized')
+
+    const rows = this.db.prepare(`
+      SELECT vt.video_id, t.name FROM video_tags vt
+      JOIN tags t ON t.id = vt.tag_id
+      ORDER BY t.name COLLATE NOCASE
+    `).all() as { video_id: string; name: string }[]
+
+    const tagsByVideo = new Map<string, string[]>()
+    for (const row of rows) {
+      const names = tagsByVideo.get(row.video_id) || []
+      names.push(row.name)
+      tagsByVideo.set(row.video_id, names)
+    }
+    return tagsByVideo
+  }
+
+  getAllCollections(): Collection[] {
+    if (!this.db) throw new Error('Database not initialized')
+
+    const stmt = this.db.prepare(`
+      SELECT c.*, (SELECT COUNT(*) FROM collection_videos cv WHERE cv.collection_id = c.id) AS video_count
+      FROM collections c
+      ORDER BY c.name COLLATE NOCASE
+    `)
+    const dbCollections = stmt.all() as DbCollection[]
+    return dbCollections.map(dbCollection => this.mapDbCollection(dbCollection))
+  }
+
+  getCollection(collectionId: number): Collection | undefined {
+    return this.getAllCollections().find(c => c.id === collectionId)
+  }
+
+  createCollection(name: string, description?: string): Collection {
+    if (!this.db) throw new Error('Database not initialized')
+
+    const stmt = this.db.prepare('INSERT INTO collections (name, description) VALUES (?, ?)')
+    const info = stmt.run(name, description || null)
+    return this.getCollection(info.lastInsertRowid as number)!
+  }
+
+  updateCollection(collectionId: number, name: string, description?: string) {
+    if (!this.db) throw new Error('Database not initialized')
+
+    const stmt = this.db.prepare(`
+      UPDATE collections SET name = ?, description = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?
+    `)
+    stmt.run(name, description || null, collectionId)
+  }
+
+  deleteCollection(collectionId: number) {
+    if (!this.db) throw new Error('Database not initialized')
+
+    const stmt = this.db.prepare('DELETE FROM collections WHERE id = ?')
+    stmt.run(collectionId)
+  }
+
+  /**
+   * Append videos to the end of a collection (videos already in it keep their position)
+   */
+  addVideosToCollection(collectionId: number, videoIds: string[]) {
+    if (!this.db) throw new Error('Database not initialized')
+
+    const maxStmt = this.db.prepare(
+      'SELECT COALESCE(MAX(position), -1) AS position FROM collection_videos WHERE collection_id = ?'
+    )
+    const insertStmt = this.db.prepare(`
+      INSERT OR IGNORE INTO collection_videos (collection_id, video_id, position) VALUES (?, ?, ?)
+    `)
+
+    this.db.transaction(() => {
+      let position = (maxStmt.get(collectionId) as { position: number }).position
+      for (const videoId of videoIds) {
+        if (insertStmt.run(collectionId, videoId, position + 1).changes > 0) {
+          position++
+        }
+      }
+    })()
+  }
+
+  removeVideosFromCollection(collectionId: number, videoIds: string[]) {
+    if (!this.db) throw new Error('Database not initialized')
+
+    const stmt = this.db.prepare('DELETE FROM collection_videos WHERE collection_id = ? AND video_id = ?')
+    this.db.transaction(() => {
+      for (const videoId of videoIds) {
+        stmt.run(collectionId, videoId)
+      }
+    })()
+  }
+
+  /**
+   * Store a new order for a collection; videos missing from the list keep their relative order at the end
+   */
+  reorderCollection(collectionId: number, videoIds: string[]) {
+    if (!this.db) throw new Error('Database not initialized')
+
+    const current = this.getCollectionVideoIds(collectionId)
+    const ordered = [
+      ...videoIds.filter(videoId => current.includes(videoId)),
+      ...current.filter(videoId => !videoIds.includes(videoId))
+    ]
+
+    const stmt = this.db.prepare(
+      'UPDATE collection_videos SET position = ? WHERE collection_id = ? AND video_id = ?'
+    )
+    this.db.transaction(() => {
+      ordered.forEach((videoId, position) => stmt.run(position, collectionId, videoId))
+    })()
+  }
+
+  getCollectionVideoIds(collectionId: number): string[] {
+    if (!this.db) throw new Error('Database not initialized')
+
+    const rows = this.db.prepare(
+      'SELECT video_id FROM collection_videos WHERE collection_id = ? ORDER BY position'
+    ).all(collectionId) as { video_id: string }[]
+    return rows.map(row => row.video_id)
+  }
+
+  /**
+   * Start a watch history entry for a playback session
+   */
+  startWatchSession(videoId: string): number {
+    if (!this.db) throw new Error('Database not initialized')
+
+    const stmt = this.db.prepare('INSERT INTO watch_history (video_id) VALUES (?)')
+    return stmt.run(videoId).lastInsertRowid as number
+  }
+
+  /**
+   * Record playback progress
+   * `elapsed` is the time watched since the previous save; the video is marked watched
+   * once the position passes `watchedThreshold` (a fraction of the duration).
+   */
+  saveWatchProgress(
+    videoId: string,
+    sessionId: number,
+    position: number,
+    duration: number,
+    elapsed: number,
+    watchedThreshold: number
+  ): WatchProgress {
+    if (!this.db) throw new Error('Database not initialized')
+
+    const reachedEnd = duration > 0 && position >= duration * watchedThreshold ? 1 : 0
+
+    this.db.transaction(() => {
+      this.db!.prepare(`
+        INSERT INTO watch_progress (video_id, position, duration, watch_time, watched, watched_at)
+        VALUES (?, ?, ?, ?, ?, CASE WHEN ? = 1 THEN CURRENT_TIMESTAMP END)
+        ON CONFLICT(video_id) DO UPDATE SET
+          position = excluded.position,
+          duration = excluded.duration,
+          watch_time = watch_time + excluded.watch_time,
+          watched_at = CASE WHEN watched = 0 AND excluded.watched = 1 THEN CURRENT_TIMESTAMP ELSE watched_at END,
+          watched = MAX(watched, excluded.watched),
+          last_watched_at = CURRENT_TIMESTAMP
+      `).run(videoId, position, duration, elapsed, reachedEnd, reachedEnd)
+
+      this.db!.prepare(`
+        UPDATE watch_history SET position = ?, watch_time = watch_time + ?, ended_at = CURRENT_TIMESTAMP
+        WHERE id = ? AND video_id = ?
+      `).run(position, elapsed, sessionId, videoId)
+    })()
+
+    return this.getWatchProgress(videoId)!
+  }
+
+  getWatchProgress(videoId: string): WatchProgress | undefined {
+    if (!this.db) throw new Error('Database not initialized')
+
+    const stmt = this.db.prepare('SELECT * FROM watch_progress WHERE video_id = ?')
+    const dbProgress = stmt.get(videoId) as DbWatchProgress | undefined
+    return dbProgress ? this.mapDbWatchProgress(dbProgress) : undefined
+  }
+
+  /**
+   * Watch progress of every video that has been played, keyed by video ID
+   */
+  getWatchProgressByVideo(): Map<string, WatchProgress> {
+    if (!this.db) throw new Error('Database not initialized')
+
+    const rows = this.db.prepare('SELECT * FROM watch_progress').all() as DbWatchProgress[]
+    return new Map(rows.map(row => [row.video_id, this.mapDbWatchProgress(row)]))
+  }
+
+  /**
+   * Mark videos watched or unwatched by hand (unwatching also resets the resume position)
+   */
+  setWatched(videoIds: string[], watched: boolean) {
+    if (!this.db) throw new Error('Database not initialized')
+
+    const stmt = watched
+      ? this.db.prepare(`
+          INSERT INTO watch_progress (video_id, watched, watched_at) VALUES (?, 1, CURRENT_TIMESTAMP)
+          ON CONFLICT(video_id) DO UPDATE SET watched = 1, watched_at = COALESCE(watched_at, CURRENT_TIMESTAMP)
+        `)
+      : this.db.prepare('UPDATE watch_progress SET watched = 0, watched_at = NULL, position = 0 WHERE video_id = ?')
+
+    this.db.transaction(() => {
+      for (const videoId of videoIds) {
+        stmt.run(videoId)
+      }
+    })()
+  }
+
+  /**
+   * Merge watch state from another library: watched wins, and a resume position
+   * is only taken when there is none locally
+   */
+  mergeWatchProgress(videoId: string, progress: Omit<WatchProgress, 'videoId' | 'lastWatchedAt'>) {
+    if (!this.db) throw new Error('Database not initialized')
+
+    const stmt = this.db.prepare(`
+      INSERT INTO watch_progress (video_id, position, duration, watch_time, watched, watched_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+      ON CONFLICT(video_id) DO UPDATE SET
+        watched = MAX(watched, excluded.watched),
+        watched_at = COALESCE(watched_at, excluded.watched_at),
+        position = CASE WHEN position > 0 THEN position ELSE excluded.position END,
+        duration = COALESCE(duration, excluded.duration),
+        watch_time = MAX(watch_time, excluded.watch_time)
+    `)
+    stmt.run(
+      videoId,
+      progress.position,
+      progress.duration ?? null,
+      progress.watchTime,
+      progress.watched ? 1 : 0,
+      progress.watchedAt || null
+    )
+  }
+
+  /**
+   * Videos that were started but not finished, most recently watched first
+   */
+  getContinueWatchingIds(limit = 50): string[] {
+    if (!this.db) throw new Error('Database not initialized')
+
+    const rows = this.db.prepare(`
+      SELECT video_id FROM watch_progress
+      WHERE watched = 0 AND position > 0
+      ORDER BY last_watched_at DESC
+      LIMIT ?
+    `).all(limit) as { video_id: string }[]
+    return rows.map(row => row.video_id)
+  }
+
+  /**
+   * Downloaded videos that haven't been watched, newest first
+   */
+  getUnwatchedIds(): string[] {
+    if (!this.db) throw new Error('Database not initialized')
+
+    const rows = this.db.prepare(`
+      SELECT v.video_id FROM videos v
+      LEFT JOIN watch_progress wp ON wp.video_id = v.video_id
+      WHERE v.download_status = 'completed' AND COALESCE(wp.watched, 0) = 0
+      ORDER BY v.created_at DESC
+    `).all() as { video_id: string }[]
+    return rows.map(row => row.video_id)
+  }
+
+  getWatchHistory(limit = 100): WatchHistoryEntry[] {
+    if (!this.db) throw new Error('Database not initialized')
+
+    const stmt = this.db.prepare(`
+      SELECT h.id, h.video_id AS videoId, v.title, h.started_at AS startedAt, h.ended_at AS endedAt,
+        h.position, h.watch_time AS watchTime
+      FROM watch_history h
+      JOIN videos v ON v.video_id = h.video_id
+      ORDER BY h.ended_at DESC, h.id DESC
+      LIMIT ?
+    `)
+    return stmt.all(limit) as WatchHistoryEntry[]
+  }
+
+  clearWatchHistory() {
+    if (!this.db) throw new Error('Database not initialized')
+
+    this.db.prepare('DELETE FROM watch_history').run()
+  }
+
+  /**
+   * Videos with a resumable partial download
+   */
+  getPartialDownloadVideoIds(): string[] {
+    if (!this.db) throw new Error('Database not initialized')
+
+    const rows = this.db.prepare('SELECT video_id FROM partial_downloads').all() as { video_id: string }[]
+    return rows.map(row => row.video_id)
+  }
+
+  getPartialDownload(videoId: string): PartialDownload | undefined {
+    if (!this.db) throw new Error('Database not initialized')
+
+    const stmt = this.db.prepare('SELECT * FROM partial_downloads WHERE video_id = ?')
+    const dbPartial = stmt.get(videoId) as DbPartialDownload | undefined
+    return dbPartial ? this.mapDbPartialDownload(dbPartial) : undefined
+  }
+
+  /**
+   * Record the format(s) and byte offset of an in-progress download so it can be resumed
+   * The audio format is set when separate video and audio streams are downloaded for muxing.
+   */
+  savePartialDownload(
+    videoId: string,
+    itag: number,
+    contentLength: number,
+    downloadedBytes: number,
+    audio?: { itag: number; contentLength: number }
+  ) {
+    if (!this.db) throw new Error('Database not initialized')
+
+    const stmt = this.db.prepare(`
+      INSERT INTO partial_downloads (video_id, itag, content_length, audio_itag, audio_content_length, downloaded_bytes)
+      VALUES (?, ?, ?, ?, ?, ?)
+      ON CONFLICT(video_id) DO UPDATE SET
+        itag = excluded.itag,
+        content_length = excluded.content_length,
+        audio_itag = excluded.audio_itag,
+        audio_content_length = excluded.audio_content_length,
+        downloaded_bytes = excluded.downloaded_bytes,
+        updated_at = CURRENT_TIMESTAMP
+    `)
+    stmt.run(videoId, itag, contentLength, audio?.itag ?? null, audio?.contentLength ?? null, downloadedBytes)
+  }
+
+  updatePartialDownloadBytes(videoId: string, downloadedBytes: number) {
+    if (!this.db) throw new Error('Database not initialized')
+
+    const stmt = this.db.prepare(`
+      UPDATE partial_downloads
+      SET downloaded_bytes = ?, updated_at = CURRENT_TIMESTAMP
+      WHERE video_id = ?
+    `)
+    stmt.run(downloadedBytes, videoId)
+  }
+
+  deletePartialDownload(videoId: string) {
+    if (!this.db) throw new Error('Database not initialized')
+
+    const stmt = this.db.prepare('DELETE FROM partial_downloads WHERE video_id = ?')
+    stmt.run(videoId)
+  }
+
+  /**
+   * Run several writes as one transaction, rolled back if fn throws
+   */
+  transaction<T>(fn: () => T): T {
+    if (!this.db) throw new Error('Database not initialized')
+
+    return this.db.transaction(fn)()
   }
 
   close() {
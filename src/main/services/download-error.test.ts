@@ -0,0 +1,51 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { classifyDownloadError, classifyPlayability } from './download-error.js'
+
+describe('classifyDownloadError', () => {
+  it('treats server errors as transient, even when they say "unavailable"', () => {
+    for (const message of ['503 Service Unavailable', 'Unexpected HTTP status 502', 'Internal Server Error']) {
+      const error = classifyDownloadError(new Error(message))
+      assert.equal(error.code, 'SERVER_ERROR', message)
+      assert.ok(error.transient)
+    }
+  })
+
+  it('recognises removed videos', () => {
+    for (const message of ['Video unavailable', 'This video has been removed by the uploader', 'This video does not exist.']) {
+      const error = classifyDownloadError(new Error(message))
+      assert.equal(error.code, 'REMOVED', message)
+      assert.ok(!error.transient)
+    }
+  })
+
+  it('classifies network, throttling and file system errors', () => {
+    assert.equal(classifyDownloadError(new Error('fetch failed')).code, 'NETWORK')
+    assert.equal(classifyDownloadError(new Error('Too Many Requests')).code, 'THROTTLED')
+    assert.equal(classifyDownloadError(Object.assign(new Error('no space left'), { code: 'ENOSPC' })).code, 'DISK_FULL')
+    assert.equal(classifyDownloadError(new Error('something odd')).code, 'UNKNOWN')
+  })
+})
+
+describe('classifyPlayability', () => {
+  it('returns null for playable videos', () => {
+    assert.equal(classifyPlayability('OK', undefined), null)
+    assert.equal(classifyPlayability(undefined, undefined), null)
+  })
+
+  it('recognises age restrictions by status or wording', () => {
+    assert.equal(classifyPlayability('AGE_CHECK_REQUIRED', undefined)?.code, 'AGE_RESTRICTED')
+    assert.equal(classifyPlayability('LOGIN_REQUIRED', 'Sign in to confirm your age')?.code, 'AGE_RESTRICTED')
+    assert.equal(classifyPlayability('UNPLAYABLE', 'This video is age-restricted')?.code, 'AGE_RESTRICTED')
+  })
+
+  it("doesn't mistake words containing \"age\" for an age restriction", () => {
+    assert.equal(classifyPlayability('ERROR', 'This page is not available in your language')?.code, 'REMOVED')
+    assert.equal(classifyPlayability('LOGIN_REQUIRED', 'Please sign in to view this message')?.code, 'LOGIN_REQUIRED')
+  })
+
+  it('recognises private and region-blocked videos', () => {
+    assert.equal(classifyPlayability('LOGIN_REQUIRED', 'This video is private')?.code, 'PRIVATE')
+    assert.equal(classifyPlayability('UNPLAYABLE', 'The uploader has not made this video available in your country')?.code, 'REGION_BLOCKED')
+  })
+})
@@ -0,0 +1,110 @@
+export type DownloadErrorCode =
+  | 'NETWORK'
+  | 'URL_EXPIRED'
+  | 'THROTTLED'
+  | 'SERVER_ERROR'
+  | 'PRIVATE'
+  | 'REMOVED'
+  | 'AGE_RESTRICTED'
+  | 'LOGIN_REQUIRED'
+  | 'REGION_BLOCKED'
+  | 'NO_FORMAT'
+  | 'FILESYSTEM'
+  | 'DISK_FULL'
+  | 'MUX_FAILED'
+  | 'UNKNOWN'
+
+// Errors worth retrying: the same request may succeed a little later
+const TRANSIENT_CODES: DownloadErrorCode[] = ['NETWORK', 'URL_EXPIRED', 'THROTTLED', 'SERVER_ERROR', 'UNKNOWN']
+
+/**
+ * Download failure with a machine-readable code
+ */
+export class DownloadError extends Error {
+  readonly code: DownloadErrorCode
+
+  constructor(code: DownloadErrorCode, message: string) {
+    super(message)
+    this.name = 'DownloadError'
+    this.code = code
+  }
+
+  get transient(): boolean {
+    return TRANSIENT_CODES.includes(this.code)
+  }
+}
+
+/**
+ * Map YouTube's playability status (from getInfo) to an error, or null if playable
+ */
+export function classifyPlayability(status: string | undefined, reason: string | undefined): DownloadError | null {
+  if (!status || status === 'OK') {
+    return null
+  }
+
+  const message = reason || `Video is not playable (${status})`
+  // Whole words only: a bare "age" would also match "page", "message" or "language"
+  const text = message.toLowerCase()
+
+  if (/\bprivate\b/.test(text)) {
+    return new DownloadError('PRIVATE', message)
+  }
+  if (
+    status === 'AGE_CHECK_REQUIRED' || status === 'CONTENT_CHECK_REQUIRED' ||
+    /\bage[- ]restricted\b|confirm your age/.test(text)
+  ) {
+    return new DownloadError('AGE_RESTRICTED', message)
+  }
+  if (/\b(country|region)\b/.test(text)) {
+    return new DownloadError('REGION_BLOCKED', message)
+  }
+  if (status === 'LOGIN_REQUIRED') {
+    return new DownloadError('LOGIN_REQUIRED', message)
+  }
+  return new DownloadError('REMOVED', message)
+}
+
+/**
+ * Classify an arbitrary error thrown while downloading
+ */
+export function classifyDownloadError(error: unknown): DownloadError {
+  if (error instanceof DownloadError) {
+    return error
+  }
+
+  const message = error instanceof Error ? error.message : String(error)
+  const code = (error as NodeJS.ErrnoException)?.code
+
+  if (code === 'ENOSPC') {
+    return new DownloadError('DISK_FULL', message)
+  }
+  if (code === 'EACCES' || code === 'EROFS') {
+    return new DownloadError('FILESYSTEM', message)
+  }
+  if (
+    code === 'ECONNRESET' || code === 'ETIMEDOUT' || code === 'ENOTFOUND' || code === 'EAI_AGAIN' ||
+    /fetch failed|network|socket|terminated|timed? ?out/i.test(message)
+  ) {
+    return new DownloadError('NETWORK', message)
+  }
+  if (/\b429\b|too many requests/i.test(message)) {
+    return new DownloadError('THROTTLED', message)
+  }
+  if (/\b403\b/.test(message)) {
+    return new DownloadError('URL_EXPIRED', message)
+  }
+  // Checked before the removal patterns: "503 Service Unavailable" is transient
+  if (/\b50[0-9]\b|service unavailable|bad gateway|gateway time-?out|internal server error/i.test(message)) {
+    return new DownloadError('SERVER_ERROR', message)
+  }
+  if (/no (suitable|matching) (video )?formats?/i.test(message)) {
+    return new DownloadError('NO_FORMAT', message)
+  }
+  if (/private/i.test(message)) {
+    return new DownloadError('PRIVATE', message)
+  }
+  if (/video (is )?(unavailable|no longer available)|has been removed|does not exist/i.test(message)) {
+    return new DownloadError('REMOVED', message)
+  }
+  return new DownloadError('UNKNOWN', message)
+}
@@ -1,190 +1,523 @@
 import { app } from 'electron'
 import path from 'path'
 import fs from 'fs'
-import { Readable } from 'stream'
+import type { Misc } from 'youtubei.js'
 import { databaseService } from './database.service.js'
 import { youtubeService } from './youtube.service.js'
+import { settingsService } from './settings.service.js'
+import { DownloadError, classifyDownloadError, classifyPlayability } from './download-error.js'
+import { formatService, getFormatExtension, type DownloadOptions } from './format.service.js'
+import { muxFragmentedMp4 } from './mp4-muxer.js'
+import { subtitleService, type CaptionTrack } from './subtitle.service.js'
+
+// YouTube throttles large single-range requests, so fetch in chunks
+const CHUNK_SIZE = 10 * 1024 * 1024
+// How many times an expired/rejected format URL is re-deciphered before giving up
+const MAX_URL_REFRESHES = 3
+// Backoff between attempts: 2s, 4s, 8s, ... capped at 5 minutes
+const RETRY_BASE_DELAY_MS = 2000
+const RETRY_MAX_DELAY_MS = 5 * 60 * 1000
+// Space left free on the library drive after a download
+const FREE_SPACE_RESERVE = 200 * 1024 * 1024
+
+interface ResolvedFormat {
+  itag: number
+  url: string
+  contentLength: number
+  extension: string
+}
+
+interface ResolvedFormats {
+  main: ResolvedFormat
+  // Separate audio stream, muxed with a video-only main stream
+  audio?: ResolvedFormat
+  captionTracks: CaptionTrack[]
+}
+
+type PartKind = 'main' | 'audio' | 'mux'
 
 class DownloadService {
   private downloadsPath: string
   private activeDownloads: Map<string, AbortController> = new Map()
 
   constructor() {
-    // Use app's downloads directory
-    const userDataPath = app.getPath('userData')
-    this.downloadsPath = path.join(userDataPath, 'downloads')
+    // Library folder from settings, or the app's downloads directory
+    this.downloadsPath = settingsService.get('libraryPath') || this.getDefaultDownloadsPath()
 
-    // Ensure directory exists
+    // Ensure the default directory exists; a custom one may be on a drive that isn't mounted
     if (!fs.existsSync(this.downloadsPath)) {
-      fs.mkdirSync(this.downloadsPath, { recursive: true })
+      if (this.isDefaultDownloadsPath()) {
+        fs.mkdirSync(this.downloadsPath, { recursive: true })
+      } else {
+        console.error('Library folder is not available:', this.downloadsPath)
+      }
     }
 
     console.log('Downloads path:', this.downloadsPath)
   }
 
   /**
-   * Download video using Youtube.js
+   * Download video, retrying transient failures with exponential backoff
+   * Each attempt re-fetches video info and resumes from the partial file.
    */
-  async downloadVideo(videoId: string, url: string, onProgress?: (progress: number) => void) {
-    // Get Youtube.js client from singleton service
-    const youtube = await youtubeService.getClient()
-
+  async downloadVideo(
+    videoId: string,
+    url: string,
+    options: DownloadOptions,
+    onProgress?: (progress: number) => void
+  ) {
     // Check if already downloading
     if (this.activeDownloads.has(videoId)) {
       throw new Error('Video is already being downloaded')
     }
 
-    // Update status to downloading
-    databaseService.updateDownloadStatus(videoId, 'downloading', 0)
-
-    const outputPath = path.join(this.downloadsPath, `${videoId}.mp4`)
     const abortController = new AbortController()
     this.activeDownloads.set(videoId, abortController)
+    const maxAttempts = settingsService.get('maxDownloadAttempts')
 
     try {
-      console.log('Fetching video info:', videoId)
+      for (let attempt = 1; ; attempt++) {
+        try {
+          const result = await this.attemptDownload(videoId, options, abortController.signal, onProgress)
+          databaseService.clearDownloadError(videoId)
+          return result
+        } catch (error) {
+          // Status of a paused/discarded download is set by whoever stopped it
+          if (abortController.signal.aborted) {
+            throw error
+          }
 
-      // Get video info
-      const info = await youtube.getInfo(videoId)
+          const downloadError = classifyDownloadError(error)
+          databaseService.updateDownloadError(videoId, downloadError.code, downloadError.message, attempt)
 
-      // Choose best format (video+audio)
-      const format = info.chooseFormat({
-        type: 'video+audio',
-        quality: 'best'
-      })
+          if (!downloadError.transient || attempt >= maxAttempts) {
+            console.error('Download failed:', videoId, downloadError.code, downloadError.message)
+            databaseService.updateDownloadStatus(videoId, 'failed', 0)
+            throw downloadError
+          }
 
-      if (!format) {
-        throw new Error('No suitable video format found')
+          const delay = Math.min(RETRY_BASE_DELAY_MS * 2 ** (attempt - 1), RETRY_MAX_DELAY_MS)
+          console.log(`Download attempt ${attempt}/${maxAttempts} failed (${downloadError.code}), retrying in ${delay}ms:`, videoId)
+          await this.sleep(delay, abortController.signal)
+        }
       }
+    } finally {
+      this.activeDownloads.delete(videoId)
+    }
+  }
 
-      const contentLength = typeof format.content_length === 'string'
-        ? parseInt(format.content_length)
-        : (format.content_length || 0)
-
-      console.log('Starting download:', videoId, 'Size:', contentLength, 'bytes')
-
-      // Download video stream
-      const stream = await info.download({
-        type: 'video+audio',
-        quality: 'best',
-        format: 'mp4'
-      })
-
-      // Convert Web ReadableStream to Node.js Readable stream
-      const reader = stream.getReader()
-      const nodeStream = new Readable({
-        async read() {
-          try {
-            const { done, value } = await reader.read()
-            if (done) {
-              this.push(null)
-            } else {
-              this.push(Buffer.from(value))
-            }
-          } catch (error) {
-            this.destroy(error as Error)
-          }
+  /**
+   * Single download attempt using HTTP range requests
+   * Data is written to `${videoId}.part` (plus `${videoId}.audio.part` for adaptive
+   * downloads) and renamed when complete, so an interrupted download resumes from
+   * the last written byte. Adaptive video and audio streams are fetched in parallel
+   * and muxed into a single MP4.
+   */
+  private async attemptDownload(
+    videoId: string,
+    options: DownloadOptions,
+    signal: AbortSignal,
+    onProgress?: (progress: number) => void
+  ) {
+    console.log('Fetching video info:', videoId)
+
+    const partial = databaseService.getPartialDownload(videoId)
+    const { main, audio, captionTracks } = await this.resolveFormats(videoId, options)
+    signal.throwIfAborted()
+
+    const streams = [
+      { format: main, partPath: this.getPartPath(videoId, 'main') },
+      ...(audio ? [{ format: audio, partPath: this.getPartPath(videoId, 'audio') }] : [])
+    ]
+
+    // Bytes on disk are only reused if the same formats are chosen again
+    const samePartial = !!partial &&
+      partial.itag === main.itag &&
+      partial.contentLength === main.contentLength &&
+      partial.audioItag === audio?.itag &&
+      partial.audioContentLength === audio?.contentLength
+
+    const offsets = streams.map(({ format, partPath }) => {
+      if (!fs.existsSync(partPath)) {
+        return 0
+      }
+      if (samePartial) {
+        return Math.min(fs.statSync(partPath).size, format.contentLength)
+      }
+      fs.unlinkSync(partPath)
+      return 0
+    })
+
+    const totalBytes = streams.reduce((sum, { format }) => sum + format.contentLength, 0)
+    let downloadedBytes = offsets.reduce((sum, offset) => sum + offset, 0)
+    let lastProgress = this.toPercent(downloadedBytes, totalBytes)
+
+    // Muxing writes a second copy before the parts are removed
+    await this.ensureFreeSpace(totalBytes - downloadedBytes + (audio ? totalBytes : 0))
+
+    if (downloadedBytes > 0) {
+      console.log('Resuming download:', videoId, 'from', downloadedBytes, 'bytes')
+    }
+
+    databaseService.savePartialDownload(videoId, main.itag, main.contentLength, downloadedBytes, audio)
+    databaseService.updateDownloadStatus(videoId, 'downloading', lastProgress)
+
+    console.log('Starting download:', videoId, 'Size:', totalBytes, 'bytes', audio ? '(video + audio)' : '')
+
+    // Combined progress over all streams
+    const onBytes = (bytes: number) => {
+      downloadedBytes += bytes
+      const progress = this.toPercent(downloadedBytes, totalBytes)
+      if (progress !== lastProgress) {
+        lastProgress = progress
+        databaseService.updateDownloadStatus(videoId, 'downloading', progress)
+        databaseService.updatePartialDownloadBytes(videoId, downloadedBytes)
+        if (onProgress) {
+          onProgress(progress)
         }
-      })
+      }
+    }
+
+    // Stop the sibling stream when one fails, and wait for both to settle so
+    // no stream is still writing to its .part file when the next attempt starts
+    const streamsController = new AbortController()
+    const abortStreams = () => streamsController.abort()
+    signal.addEventListener('abort', abortStreams, { once: true })
+
+    try {
+      const results = await Promise.allSettled(streams.map(({ format, partPath }, i) =>
+        this.fetchRanges(videoId, format, offsets[i], partPath, streamsController.signal, onBytes)
+          .catch((error) => {
+            streamsController.abort()
+            throw error
+          })
+      ))
+      const failed = results.find((r): r is PromiseRejectedResult => r.status === 'rejected')
+      if (failed) {
+        throw failed.reason
+      }
+    } finally {
+      signal.removeEventListener('abort', abortStreams)
+    }
+
+    let outputPath: string
+    if (audio) {
+      outputPath = path.join(this.downloadsPath, `${videoId}.mp4`)
+      await this.muxStreams(videoId, streams[0].partPath, streams[1].partPath, outputPath)
+    } else {
+      outputPath = path.join(this.downloadsPath, `${videoId}.${main.extension}`)
+      fs.renameSync(streams[0].partPath, outputPath)
+    }
+    databaseService.deletePartialDownload(videoId)
+
+    // Missing captions shouldn't fail a finished download
+    if (options.subtitles && options.subtitles.length > 0) {
+      try {
+        await subtitleService.downloadSubtitles(videoId, captionTracks, options.subtitles, this.downloadsPath)
+      } catch (error) {
+        console.error('Failed to download subtitles:', videoId, error)
+      }
+    }
+
+    const fileSize = fs.statSync(outputPath).size
+    databaseService.updateDownloadComplete(videoId, outputPath, fileSize)
+
+    console.log('Download completed:', videoId, fileSize, 'bytes')
+    return { filePath: outputPath, fileSize }
+  }
+
+  /**
+   * Mux downloaded video and audio streams into the final file and remove the parts
+   */
+  private async muxStreams(videoId: string, videoPartPath: string, audioPartPath: string, outputPath: string) {
+    const muxPath = this.getPartPath(videoId, 'mux')
+    console.log('Muxing video and audio:', videoId)
+
+    try {
+      await muxFragmentedMp4(videoPartPath, audioPartPath, muxPath)
+    } catch (error) {
+      if (fs.existsSync(muxPath)) {
+        fs.unlinkSync(muxPath)
+      }
+      throw new DownloadError('MUX_FAILED', `Failed to combine video and audio: ${error instanceof Error ? error.message : error}`)
+    }
+
+    fs.renameSync(muxPath, outputPath)
+    fs.unlinkSync(videoPartPath)
+    fs.unlinkSync(audioPartPath)
+  }
+
+  /**
+   * Wait for a backoff delay, ending early if the download is paused
+   */
+  private sleep(ms: number, signal: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        signal.removeEventListener('abort', onAbort)
+        resolve()
+      }, ms)
+      const onAbort = () => {
+        clearTimeout(timer)
+        reject(new Error('Download cancelled'))
+      }
+      signal.addEventListener('abort', onAbort, { once: true })
+    })
+  }
+
+  /**
+   * Fetch video info and pick the format(s) to download
+   */
+  private async resolveFormats(videoId: string, options: DownloadOptions): Promise<ResolvedFormats> {
+    // Get Youtube.js client from singleton service
+    const youtube = await youtubeService.getClient()
+    const info = await youtube.getInfo(videoId)
+
+    const unplayable = classifyPlayability(info.playability_status?.status, info.playability_status?.reason)
+    if (unplayable) {
+      throw unplayable
+    }
+
+    const selected = formatService.selectFormats(info, options)
+    if (!selected) {
+      throw new DownloadError('NO_FORMAT', 'No suitable video format found')
+    }
+
+    const resolve = async (format: Misc.Format): Promise<ResolvedFormat> => {
+      const formatUrl = await format.decipher(youtube.session.player)
+      return {
+        itag: format.itag,
+        url: formatUrl,
+        contentLength: format.content_length || await this.probeContentLength(formatUrl),
+        extension: getFormatExtension(format)
+      }
+    }
+
+    return {
+      main: await resolve(selected.main),
+      audio: selected.audio ? await resolve(selected.audio) : undefined,
+      captionTracks: info.captions?.caption_tracks || []
+    }
+  }
+
+  /**
+   * Re-fetch video info and decipher a fresh URL for the same format
+   * Signed URLs expire after a few hours, which matters for long downloads
+   */
+  private async refreshFormatUrl(videoId: string, itag: number): Promise<string> {
+    const youtube = await youtubeService.getClient()
+    const info = await youtube.getInfo(videoId)
+
+    const streamingData = info.streaming_data
+    const format = streamingData && [...streamingData.formats, ...streamingData.adaptive_formats]
+      .find(f => f.itag === itag)
+    if (!format) {
+      throw new DownloadError('NO_FORMAT', 'Format is no longer available')
+    }
+
+    return format.decipher(youtube.session.player)
+  }
+
+  /**
+   * Determine file size from a one-byte range request when the format doesn't report it
+   */
+  private async probeContentLength(url: string): Promise<number> {
+    const youtube = await youtubeService.getClient()
+    const response = await youtube.session.http.fetch_function(url, {
+      headers: { Range: 'bytes=0-0' }
+    })
+    const contentRange = response.headers.get('content-range') || ''
+    const total = parseInt(contentRange.split('/')[1] || '')
+
+    if (!total) {
+      throw new Error('Could not determine video size')
+    }
+    return total
+  }
+
+  /**
+   * Download the remaining bytes of a format in chunks, appending to the .part file
+   */
+  private async fetchRanges(
+    videoId: string,
+    format: ResolvedFormat,
+    startOffset: number,
+    partPath: string,
+    signal: AbortSignal,
+    onBytes: (bytes: number) => void
+  ) {
+    const youtube = await youtubeService.getClient()
+    const fetchFunction = youtube.session.http.fetch_function
+    const { itag, contentLength } = format
 
-      // Create write stream
-      const writeStream = fs.createWriteStream(outputPath)
+    let downloadUrl = format.url
+    let offset = startOffset
+    let refreshes = 0
 
-      // Track progress
-      let downloaded = 0
-      let lastProgress = 0
+    const file = await fs.promises.open(partPath, 'a')
 
-      nodeStream.on('data', (chunk: Buffer) => {
-        downloaded += chunk.length
+    try {
+      while (offset < contentLength) {
+        const end = Math.min(offset + CHUNK_SIZE, contentLength) - 1
+        const response = await fetchFunction(downloadUrl, {
+          headers: { Range: `bytes=${offset}-${end}` },
+          signal
+        })
+
+        if (response.status !== 206 && !(response.status === 200 && offset === 0)) {
+          // Release the connection; an unread body keeps it open until it is garbage collected
+          await response.body?.cancel()
 
-        if (contentLength > 0) {
-          const progress = Math.floor((downloaded / contentLength) * 100)
-          if (progress !== lastProgress) {
-            lastProgress = progress
-            databaseService.updateDownloadStatus(videoId, 'downloading', progress)
-            if (onProgress) {
-              onProgress(progress)
+          // Signed URLs expire after a few hours; re-decipher and try again
+          if (response.status === 403 || response.status === 410) {
+            if (++refreshes > MAX_URL_REFRESHES) {
+              throw new DownloadError('URL_EXPIRED', `Download URL rejected (HTTP ${response.status})`)
             }
+            console.log('Download URL expired, refreshing:', videoId, itag)
+            downloadUrl = await this.refreshFormatUrl(videoId, itag)
+            continue
+          }
+
+          if (response.status === 429) {
+            throw new DownloadError('THROTTLED', 'Too many requests (HTTP 429)')
           }
+          if (response.status >= 500) {
+            throw new DownloadError('SERVER_ERROR', `Server error (HTTP ${response.status})`)
+          }
+          throw new Error(`Unexpected HTTP status ${response.status}`)
         }
-      })
-
-      // Handle abort signal
-      abortController.signal.addEventListener('abort', () => {
-        nodeStream.destroy(new Error('Download cancelled'))
-        writeStream.destroy()
-        // Clean up partial file
-        if (fs.existsSync(outputPath)) {
-          fs.unlinkSync(outputPath)
+        if (!response.body) {
+          throw new Error('Empty response body')
         }
-      })
-
-      // Pipe stream to file
-      return new Promise<{ filePath: string; fileSize: number }>((resolve, reject) => {
-        nodeStream.pipe(writeStream)
 
-        writeStream.on('finish', () => {
-          this.activeDownloads.delete(videoId)
+        const reader = response.body.getReader()
+        while (true) {
+          const { done, value } = await reader.read()
+          if (done) break
 
-          try {
-            const stats = fs.statSync(outputPath)
-            const fileSize = stats.size
+          await file.write(value)
+          offset += value.length
+          onBytes(value.length)
+        }
+      }
+    } finally {
+      await file.close()
+    }
+  }
 
-            // Update database with completed download
-            databaseService.updateDownloadComplete(videoId, outputPath, fileSize)
+  private toPercent(downloaded: number, total: number): number {
+    return total > 0 ? Math.floor((downloaded / total) * 100) : 0
+  }
 
-            console.log('Download completed:', videoId, fileSize, 'bytes')
-            resolve({ filePath: outputPath, fileSize })
-          } catch (error) {
-            console.error('Error getting file stats:', error)
-            databaseService.updateDownloadStatus(videoId, 'failed', 0)
-            reject(new Error('Failed to get downloaded file info'))
-          }
-        })
+  private getPartPath(videoId: string, kind: PartKind = 'main') {
+    const suffix = kind === 'main' ? 'part' : `${kind}.part`
+    return path.join(this.downloadsPath, `${videoId}.${suffix}`)
+  }
 
-        writeStream.on('error', (error) => {
-          this.activeDownloads.delete(videoId)
-          console.error('Write stream error:', error)
-          databaseService.updateDownloadStatus(videoId, 'failed', 0)
-          reject(error)
-        })
+  /**
+   * Progress (0-100) of a partially downloaded video, or 0 if none
+   */
+  getPartialProgress(videoId: string): number {
+    const partial = databaseService.getPartialDownload(videoId)
+    if (!partial) {
+      return 0
+    }
 
-        nodeStream.on('error', (error) => {
-          this.activeDownloads.delete(videoId)
-          console.error('Download stream error:', error)
-          databaseService.updateDownloadStatus(videoId, 'failed', 0)
-          reject(error)
-        })
-      })
-    } catch (error) {
-      this.activeDownloads.delete(videoId)
-      console.error('Download error:', error)
-      databaseService.updateDownloadStatus(videoId, 'failed', 0)
-      throw error
+    const partSize = (kind: PartKind) => {
+      const partPath = this.getPartPath(videoId, kind)
+      return fs.existsSync(partPath) ? fs.statSync(partPath).size : 0
     }
+    const downloaded = partSize('main') + (partial.audioItag !== undefined ? partSize('audio') : 0)
+    return this.toPercent(downloaded, partial.contentLength + (partial.audioContentLength || 0))
   }
 
   /**
-   * Cancel ongoing download
+   * Pause download, keeping the partial file so it can be resumed later
    */
-  cancelDownload(videoId: string) {
+  pauseDownload(videoId: string) {
     const abortController = this.activeDownloads.get(videoId)
     if (abortController) {
       abortController.abort()
       this.activeDownloads.delete(videoId)
-      databaseService.updateDownloadStatus(videoId, 'pending', 0)
-      console.log('Download cancelled:', videoId)
+    }
+
+    const progress = this.getPartialProgress(videoId)
+    databaseService.updateDownloadStatus(videoId, progress > 0 ? 'paused' : 'pending', progress)
+
+    if (abortController) {
+      console.log('Download paused:', videoId, `${progress}%`)
       return true
     }
     return false
   }
 
+  /**
+   * Stop download (if running) and delete any partial data
+   */
+  discardDownload(videoId: string) {
+    const abortController = this.activeDownloads.get(videoId)
+    if (abortController) {
+      abortController.abort()
+      this.activeDownloads.delete(videoId)
+    }
+
+    for (const kind of ['main', 'audio', 'mux'] as PartKind[]) {
+      const partPath = this.getPartPath(videoId, kind)
+      if (fs.existsSync(partPath)) {
+        fs.unlinkSync(partPath)
+      }
+    }
+    databaseService.deletePartialDownload(videoId)
+    databaseService.updateDownloadStatus(videoId, 'pending', 0)
+
+    console.log('Download discarded:', videoId)
+    return true
+  }
+
+  /**
+   * Fail early when the library folder is missing or the download won't fit
+   */
+  private async ensureFreeSpace(requiredBytes: number) {
+    if (!fs.existsSync(this.downloadsPath)) {
+      throw new DownloadError('FILESYSTEM', `Library folder is not available: ${this.downloadsPath}`)
+    }
+
+    const { bavail, bsize } = await fs.promises.statfs(this.downloadsPath)
+    const freeBytes = bavail * bsize
+    if (freeBytes < requiredBytes + FREE_SPACE_RESERVE) {
+      const toMB = (bytes: number) => Math.ceil(bytes / 1024 / 1024)
+      throw new DownloadError(
+        'DISK_FULL',
+        `Not enough disk space: ${toMB(requiredBytes)} MB needed, ${toMB(freeBytes)} MB free`
+      )
+    }
+  }
+
+  isDownloading(videoId: string): boolean {
+    return this.activeDownloads.has(videoId)
+  }
+
   /**
    * Get downloads directory path
    */
   getDownloadsPath() {
     return this.downloadsPath
   }
+
+  getDefaultDownloadsPath() {
+    return path.join(app.getPath('userData'), 'downloads')
+  }
+
+  isDefaultDownloadsPath() {
+    return path.resolve(this.downloadsPath) === path.resolve(this.getDefaultDownloadsPath())
+  }
+
+  /**
+   * Switch the library folder (files are moved by the storage service)
+   */
+  setDownloadsPath(downloadsPath: string) {
+    this.downloadsPath = downloadsPath
+    console.log('Downloads path:', this.downloadsPath)
+  }
 }
 
 export const downloadService = new DownloadService()
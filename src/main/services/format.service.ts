@@ -0,0 +1,219 @@
+import type { YT, Misc } from 'youtubei.js'
+import { youtubeService } from './youtube.service.js'
+import { DownloadError } from './download-error.js'
+
+export type VideoQuality = 'best' | '2160p' | '1440p' | '1080p' | '720p' | '480p' | '360p'
+// Only codecs that can be downloaded: progressive streams are avc1, and only MP4
+// (avc1/av01) video streams can be muxed, so VP9 (WebM) is never an option
+export type VideoCodec = 'any' | 'avc1' | 'av01'
+export type AudioFormat = 'm4a' | 'opus'
+
+export interface SubtitleSelection {
+  /** Language code of the caption track, e.g. "en" (also matches regional variants like "en-GB") */
+  languageCode: string
+  /** Auto-generated (speech recognition) track instead of a manually created one */
+  auto: boolean
+}
+
+export interface DownloadOptions {
+  /** Target resolution; the best format at or below it is chosen */
+  quality: VideoQuality
+  /** Preferred video codec (falls back to any codec if unavailable) */
+  codec: VideoCodec
+  /** Download audio only */
+  audioOnly: boolean
+  /** Container/codec used in audio-only mode */
+  audioFormat: AudioFormat
+  /** Download separate video and audio streams and mux them (needed above 720p) */
+  adaptive: boolean
+  /** Exact format picked by the user, overrides the options above */
+  itag?: number
+  /** Caption tracks to save as WebVTT next to the video */
+  subtitles?: SubtitleSelection[]
+}
+
+export const DEFAULT_DOWNLOAD_OPTIONS: DownloadOptions = {
+  quality: 'best',
+  codec: 'any',
+  audioOnly: false,
+  audioFormat: 'm4a',
+  // Progressive (at most 720p) unless the user opts into combined HD streams
+  adaptive: false,
+  subtitles: []
+}
+
+export interface SelectedFormats {
+  /** Progressive or video-only format (audio-only format in audio mode) */
+  main: Misc.Format
+  /** Audio stream to mux with a video-only main format */
+  audio?: Misc.Format
+}
+
+export interface FormatInfo {
+  itag: number
+  kind: 'progressive' | 'video' | 'audio'
+  mimeType: string
+  codecs: string
+  extension: string
+  qualityLabel?: string
+  width?: number
+  height?: number
+  fps?: number
+  bitrate: number
+  audioQuality?: string
+  audioSampleRate?: number
+  contentLength?: number
+}
+
+/**
+ * Parse "video/mp4; codecs=\"avc1.64001F, mp4a.40.2\"" into container and codecs
+ */
+function parseMimeType(mimeType: string) {
+  const [type] = mimeType.split(';')
+  const codecs = mimeType.match(/codecs="([^"]+)"/)?.[1] || ''
+  return { type: type.trim(), codecs }
+}
+
+/**
+ * File extension for a format's container
+ */
+export function getFormatExtension(format: Misc.Format): string {
+  const { type } = parseMimeType(format.mime_type)
+  if (type === 'audio/mp4') return 'm4a'
+  if (type.endsWith('/webm')) return 'webm'
+  return 'mp4'
+}
+
+function getKind(format: Misc.Format): FormatInfo['kind'] {
+  if (format.has_video && format.has_audio) return 'progressive'
+  return format.has_video ? 'video' : 'audio'
+}
+
+function toFormatInfo(format: Misc.Format): FormatInfo {
+  const { type, codecs } = parseMimeType(format.mime_type)
+  return {
+    itag: format.itag,
+    kind: getKind(format),
+    mimeType: type,
+    codecs,
+    extension: getFormatExtension(format),
+    qualityLabel: format.quality_label,
+    width: format.width,
+    height: format.height,
+    fps: format.fps,
+    bitrate: format.bitrate,
+    audioQuality: format.audio_quality,
+    audioSampleRate: format.audio_sample_rate,
+    contentLength: format.content_length
+  }
+}
+
+function isMp4(format: Misc.Format): boolean {
+  return parseMimeType(format.mime_type).type.endsWith('/mp4')
+}
+
+function matchesCodec(format: Misc.Format, codec: VideoCodec | 'mp4a' | 'opus'): boolean {
+  return codec === 'any' || parseMimeType(format.mime_type).codecs.startsWith(codec)
+}
+
+/**
+ * Sort audio formats: original/default language track first, then by bitrate
+ */
+function byAudioPreference(a: Misc.Format, b: Misc.Format): number {
+  const isDefault = (f: Misc.Format) => (!f.audio_track || f.audio_track.audio_is_default ? 1 : 0)
+  return isDefault(b) - isDefault(a) || b.bitrate - a.bitrate
+}
+
+/**
+ * Pick the highest resolution at or below the target, or the lowest one if all are above it
+ */
+function pickByResolution(formats: Misc.Format[], quality: VideoQuality): Misc.Format | undefined {
+  const sorted = [...formats].sort((a, b) => (b.height || 0) - (a.height || 0) || b.bitrate - a.bitrate)
+  if (quality === 'best') {
+    return sorted[0]
+  }
+
+  const maxHeight = parseInt(quality)
+  return sorted.find(f => (f.height || 0) <= maxHeight) || sorted[sorted.length - 1]
+}
+
+/**
+ * Format listing and selection based on user download options
+ */
+class FormatService {
+  /**
+   * List all downloadable formats of a video
+   */
+  async listFormats(videoId: string): Promise<FormatInfo[]> {
+    const youtube = await youtubeService.getClient()
+    const info = await youtube.getInfo(videoId)
+
+    const streamingData = info.streaming_data
+    if (!streamingData) {
+      throw new Error('Streaming data not available')
+    }
+
+    return [...streamingData.formats, ...streamingData.adaptive_formats]
+      .filter(f => !f.has_text && !f.is_type_otf)
+      .map(toFormatInfo)
+  }
+
+  /**
+   * Choose the format(s) to download for the given options
+   */
+  selectFormats(info: YT.VideoInfo, options: DownloadOptions): SelectedFormats | undefined {
+    const streamingData = info.streaming_data
+    if (!streamingData) {
+      return undefined
+    }
+
+    // OTF streams are served in segments and can't be fetched with plain range requests
+    const adaptiveFormats = streamingData.adaptive_formats.filter(f => !f.is_type_otf)
+    const bestMp4Audio = adaptiveFormats
+      .filter(f => f.has_audio && !f.has_video && matchesCodec(f, 'mp4a'))
+      .sort(byAudioPreference)[0]
+
+    if (options.itag !== undefined) {
+      const format = [...streamingData.formats, ...adaptiveFormats].find(f => f.itag === options.itag)
+      if (!format) {
+        return undefined
+      }
+      if (format.has_video && !format.has_audio) {
+        if (!isMp4(format)) {
+          throw new DownloadError('NO_FORMAT', 'Only MP4 video streams can be combined with audio')
+        }
+        return bestMp4Audio ? { main: format, audio: bestMp4Audio } : undefined
+      }
+      return { main: format }
+    }
+
+    if (options.audioOnly) {
+      const codec = options.audioFormat === 'opus' ? 'opus' : 'mp4a'
+      const audioFormats = adaptiveFormats
+        .filter(f => f.has_audio && !f.has_video && matchesCodec(f, codec))
+        .sort(byAudioPreference)
+      return audioFormats[0] ? { main: audioFormats[0] } : undefined
+    }
+
+    if (options.adaptive && bestMp4Audio) {
+      const videoOnly = adaptiveFormats.filter(f => f.has_video && !f.has_audio && isMp4(f))
+      const preferred = videoOnly.filter(f => matchesCodec(f, options.codec))
+      const video = pickByResolution(preferred.length > 0 ? preferred : videoOnly, options.quality)
+      if (video) {
+        return { main: video, audio: bestMp4Audio }
+      }
+      console.log('No muxable adaptive streams, falling back to progressive format')
+    }
+
+    const progressive = streamingData.formats.filter(f => f.has_video && f.has_audio)
+    const preferred = progressive.filter(f => matchesCodec(f, options.codec))
+    if (preferred.length === 0 && options.codec !== 'any') {
+      console.log('Preferred codec not available, using any codec:', options.codec)
+    }
+
+    const format = pickByResolution(preferred.length > 0 ? preferred : progressive, options.quality)
+    return format ? { main: format } : undefined
+  }
+}
+
+export const formatService = new FormatService()
@@ -0,0 +1,274 @@
+import path from 'path'
+import fs from 'fs'
+import { databaseService, type Video } from './database.service.js'
+import { downloadService } from './download.service.js'
+import { queueService } from './queue.service.js'
+import { metadataService } from './metadata.service.js'
+import { thumbnailService } from './thumbnail.service.js'
+import { subtitleService } from './subtitle.service.js'
+import { assertLibraryNotMoving } from './library-move.js'
+
+export type IntegrityIssueKind = 'missing_file' | 'size_mismatch' | 'orphan_file' | 'stuck_download'
+
+export type RepairAction = 'reset' | 'redownload' | 'adopt' | 'delete'
+
+export interface IntegrityIssue {
+  kind: IntegrityIssueKind
+  videoId?: string
+  title?: string
+  filePath?: string
+  /** Size recorded in the library */
+  expectedSize?: number
+  /** Size on disk */
+  actualSize?: number
+  actions: RepairAction[]
+}
+
+export interface IntegrityReport {
+  libraryPath: string
+  videosChecked: number
+  filesChecked: number
+  issues: IntegrityIssue[]
+}
+
+// Downloaded media is saved as <videoId>.<ext>; anything else can't be adopted
+const MEDIA_FILE_PATTERN = /^([\w-]{11})\.(mp4|m4a|webm|mkv)$/
+// Partial downloads: <videoId>.part, <videoId>.audio.part, <videoId>.mux.part
+const PART_FILE_PATTERN = /^([\w-]{11})\.(?:audio\.|mux\.)?part$/
+
+// Files the OS or a file manager leaves in folders (dotfiles are skipped too)
+const SYSTEM_FILES = new Set(['thumbs.db', 'ehthumbs.db', 'desktop.ini', 'icon\r'])
+
+function isSystemFile(fileName: string): boolean {
+  return fileName.startsWith('.') || SYSTEM_FILES.has(fileName.toLowerCase())
+}
+
+function getAdoptableVideoId(filePath: string): string | undefined {
+  return path.basename(filePath).match(MEDIA_FILE_PATTERN)?.[1]
+}
+
+/**
+ * Library integrity check
+ *
+ * Compares the library with the downloads folder: completed videos whose file
+ * is gone or has a different size, files no video or subtitle refers to, and
+ * videos left 'downloading'/'queued' with no job behind them. Nothing is
+ * changed by a scan; repairs are applied on request, one issue at a time.
+ */
+class IntegrityService {
+  async scan(): Promise<IntegrityReport> {
+    const libraryPath = downloadService.getDownloadsPath()
+    if (!fs.existsSync(libraryPath)) {
+      throw new Error(`Library folder is not available: ${libraryPath}`)
+    }
+
+    const videos = databaseService.getAllVideos()
+    const queuedIds = this.getQueuedIds()
+    const issues: IntegrityIssue[] = []
+
+    for (const video of videos) {
+      const issue = await this.checkVideo(video, queuedIds)
+      if (issue) {
+        issues.push(issue)
+      }
+    }
+
+    const referenced = this.getReferencedFiles()
+    const partialIds = new Set(databaseService.getPartialDownloadVideoIds())
+    const entries = await fs.promises.readdir(libraryPath, { withFileTypes: true })
+    const files = entries.filter(entry => entry.isFile())
+    for (const entry of files) {
+      const issue = await this.checkFile(path.join(libraryPath, entry.name), referenced, partialIds)
+      if (issue) {
+        issues.push(issue)
+      }
+    }
+
+    console.log(`Integrity check: ${videos.length} videos, ${files.length} files, ${issues.length} issues`)
+    return { libraryPath, videosChecked: videos.length, filesChecked: files.length, issues }
+  }
+
+  /**
+   * Apply a repair action to an issue reported by scan()
+   * The issue comes back from the renderer, so it's checked again here and
+   * only an action the fresh check offers is applied.
+   */
+  async repair(reported: IntegrityIssue, action: RepairAction): Promise<void> {
+    assertLibraryNotMoving('repair the library')
+    const issue = reported.kind === 'orphan_file'
+      ? await this.recheckFile(reported.filePath)
+      : await this.recheckVideo(reported.videoId)
+    if (!issue || issue.kind !== reported.kind) {
+      throw new Error('The problem is no longer there; check the library again')
+    }
+    if (!issue.actions.includes(action)) {
+      throw new Error(`Cannot ${action} a ${issue.kind.replace('_', ' ')}`)
+    }
+
+    if (issue.kind === 'orphan_file') {
+      await this.repairOrphan(issue, action)
+      return
+    }
+
+    const video = databaseService.getVideoByVideoId(issue.videoId!)!
+    switch (action) {
+      case 'reset':
+      case 'redownload':
+        // A mismatched file would otherwise be left behind as an orphan
+        if (issue.kind === 'size_mismatch' && video.filePath && fs.existsSync(video.filePath)) {
+          await fs.promises.unlink(video.filePath)
+        }
+        downloadService.discardDownload(video.videoId)
+        databaseService.clearDownloadedFile(video.videoId)
+        if (action === 'redownload') {
+          queueService.enqueue(video.videoId, video.url)
+        }
+        break
+      case 'delete':
+        queueService.remove(video.videoId)
+        downloadService.discardDownload(video.videoId)
+        subtitleService.deleteSubtitles(video.videoId)
+        thumbnailService.deleteThumbnail(video)
+        databaseService.deleteVideoByVideoId(video.videoId)
+        break
+    }
+    console.log(`Integrity repair: ${action} ${issue.kind}`, video.videoId)
+  }
+
+  private getQueuedIds(): Set<string> {
+    return new Set(databaseService.getDownloadJobs().map(job => job.videoId))
+  }
+
+  /**
+   * Files a video or subtitle refers to, as resolved paths
+   */
+  private getReferencedFiles(): Set<string> {
+    return new Set([
+      ...databaseService.getAllVideos().flatMap(video => (video.filePath ? [path.resolve(video.filePath)] : [])),
+      ...databaseService.getAllSubtitleFilePaths().map(filePath => path.resolve(filePath))
+    ])
+  }
+
+  private async checkVideo(video: Video, queuedIds: Set<string>): Promise<IntegrityIssue | null> {
+    const base = { videoId: video.videoId, title: video.title }
+
+    if (video.downloadStatus === 'completed') {
+      const stat = video.filePath ? await fs.promises.stat(video.filePath).catch(() => null) : null
+      if (!stat) {
+        return { ...base, kind: 'missing_file', filePath: video.filePath, actions: ['redownload', 'reset', 'delete'] }
+      }
+      if (video.fileSize && stat.size !== video.fileSize) {
+        return {
+          ...base,
+          kind: 'size_mismatch',
+          filePath: video.filePath,
+          expectedSize: video.fileSize,
+          actualSize: stat.size,
+          actions: ['redownload', 'reset']
+        }
+      }
+    } else if (
+      (video.downloadStatus === 'downloading' || video.downloadStatus === 'queued') &&
+      !queuedIds.has(video.videoId) &&
+      !downloadService.isDownloading(video.videoId)
+    ) {
+      return { ...base, kind: 'stuck_download', actions: ['redownload', 'reset'] }
+    }
+    return null
+  }
+
+  private async checkFile(filePath: string, referenced: Set<string>, partialIds: Set<string>): Promise<IntegrityIssue | null> {
+    const fileName = path.basename(filePath)
+    if (referenced.has(path.resolve(filePath)) || isSystemFile(fileName)) {
+      return null
+    }
+    const partOf = fileName.match(PART_FILE_PATTERN)?.[1]
+    if (partOf && partialIds.has(partOf)) {
+      return null
+    }
+
+    let size: number
+    try {
+      ({ size } = await fs.promises.stat(filePath))
+    } catch (error) {
+      // Removed since the folder was listed
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null
+      }
+      throw error
+    }
+    const videoId = getAdoptableVideoId(filePath)
+    return {
+      kind: 'orphan_file',
+      videoId,
+      title: videoId ? databaseService.getVideoByVideoId(videoId)?.title : undefined,
+      filePath,
+      actualSize: size,
+      actions: videoId ? ['adopt', 'delete'] : ['delete']
+    }
+  }
+
+  private async recheckVideo(videoId: string | undefined): Promise<IntegrityIssue | null> {
+    const video = videoId ? databaseService.getVideoByVideoId(videoId) : undefined
+    if (!video) {
+      throw new Error('Video not found')
+    }
+    return this.checkVideo(video, this.getQueuedIds())
+  }
+
+  /**
+   * Check a file reported as an orphan; it must be directly inside the library folder
+   */
+  private async recheckFile(reportedPath: string | undefined): Promise<IntegrityIssue | null> {
+    const libraryPath = path.resolve(downloadService.getDownloadsPath())
+    const filePath = path.resolve(libraryPath, reportedPath || '')
+    const stat = await fs.promises.stat(filePath).catch(() => null)
+    if (path.dirname(filePath) !== libraryPath || !stat?.isFile()) {
+      throw new Error('File is no longer in the library folder')
+    }
+    return this.checkFile(filePath, this.getReferencedFiles(), new Set(databaseService.getPartialDownloadVideoIds()))
+  }
+
+  private async repairOrphan(issue: IntegrityIssue, action: RepairAction) {
+    const filePath = issue.filePath!
+
+    if (action === 'delete') {
+      await fs.promises.unlink(filePath)
+      console.log('Integrity repair: deleted orphan file', filePath)
+      return
+    }
+
+    const videoId = getAdoptableVideoId(filePath)
+    if (!videoId) {
+      throw new Error('File name does not contain a video ID')
+    }
+
+    let video = databaseService.getVideoByVideoId(videoId)
+    if (!video) {
+      // Unknown video: add it, then fill in the metadata from YouTube
+      video = databaseService.addVideo({
+        videoId,
+        url: `https://www.youtube.com/watch?v=${videoId}`,
+        title: videoId,
+        thumbnailUrl: `https://i.ytimg.com/vi/${videoId}/hqdefault.jpg`,
+        duration: 0,
+        channelName: 'Unknown'
+      })
+      try {
+        await metadataService.refreshVideo(videoId, { notify: false })
+      } catch (error) {
+        console.error('Failed to fetch metadata for adopted file:', videoId, error)
+      }
+      thumbnailService.enqueue([videoId])
+    } else if (video.filePath && video.filePath !== filePath && fs.existsSync(video.filePath)) {
+      throw new Error('The video already has a downloaded file')
+    }
+
+    queueService.remove(videoId)
+    const { size } = await fs.promises.stat(filePath)
+    databaseService.updateDownloadComplete(videoId, filePath, size)
+    console.log('Integrity repair: adopted', filePath, 'as', videoId)
+  }
+}
+
+export const integrityService = new IntegrityService()
@@ -0,0 +1,67 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { LIBRARY_FORMAT, LIBRARY_FORMAT_VERSION, formatLibraryCsv, parseLibraryCsv, parseLibraryJson, type ExportedVideo } from './library-format.js'
+
+function video(videoId: string, extra: Partial<ExportedVideo> = {}): ExportedVideo {
+  return { videoId, url: `https://www.youtube.com/watch?v=${videoId}`, title: 'A video', duration: 60, channelName: 'A channel', ...extra }
+}
+
+function libraryJson(videos: unknown[]): string {
+  return JSON.stringify({ format: LIBRARY_FORMAT, version: LIBRARY_FORMAT_VERSION, exportedAt: '2024-01-01T00:00:00.000Z', videos, collections: [] })
+}
+
+describe('parseLibraryJson', () => {
+  it('keeps videos with a valid ID', () => {
+    const data = parseLibraryJson(libraryJson([video('dQw4w9WgXcQ'), video('a-b_c1234_Z')]))
+    assert.deepEqual(data.videos.map(v => v.videoId), ['dQw4w9WgXcQ', 'a-b_c1234_Z'])
+  })
+
+  it('drops videos whose ID is not a YouTube video ID', () => {
+    const data = parseLibraryJson(libraryJson([
+      video('../../../somewhere/x'),
+      video('..%2Fetc%2Fx'),
+      video('dQw4w9WgXc'),
+      { videoId: 42 },
+      null,
+      video('dQw4w9WgXcQ')
+    ]))
+    assert.deepEqual(data.videos.map(v => v.videoId), ['dQw4w9WgXcQ'])
+  })
+
+  it('drops bundle entries whose ID would lead out of the downloads folder', () => {
+    const data = parseLibraryJson(libraryJson([
+      video('../../../x', { file: 'files/x.mp4', thumbnailUrl: 'https://example.com/x.jpg' }),
+      video('dQw4w9WgXcQ', { file: 'files/dQw4w9WgXcQ.mp4' })
+    ]))
+    assert.deepEqual(data.videos.map(v => [v.videoId, v.file]), [['dQw4w9WgXcQ', 'files/dQw4w9WgXcQ.mp4']])
+  })
+
+  it('refuses other documents and newer versions', () => {
+    assert.throws(() => parseLibraryJson('{"videos":[]}'), /Not a Tube Crawler library export/)
+    assert.throws(() => parseLibraryJson(JSON.stringify({ format: LIBRARY_FORMAT, version: LIBRARY_FORMAT_VERSION + 1, videos: [] })), /Unsupported/)
+  })
+})
+
+describe('parseLibraryCsv', () => {
+  it('reads back what formatLibraryCsv wrote', () => {
+    const videos = parseLibraryCsv(formatLibraryCsv([video('dQw4w9WgXcQ', { title: 'Quotes "and", commas', tags: ['a', 'b'] })]))
+    assert.equal(videos.length, 1)
+    assert.equal(videos[0].title, 'Quotes "and", commas')
+    assert.deepEqual(videos[0].tags, ['a', 'b'])
+  })
+
+  it('takes the ID from a watch URL when there is no video_id', () => {
+    const videos = parseLibraryCsv('url,title\r\nhttps://youtu.be/dQw4w9WgXcQ,Linked\r\n')
+    assert.deepEqual(videos.map(v => v.videoId), ['dQw4w9WgXcQ'])
+  })
+
+  it('drops rows whose ID is not a YouTube video ID', () => {
+    const videos = parseLibraryCsv([
+      'video_id,title',
+      '../../../somewhere/x,Traversal',
+      'dQw4w9WgXcQ/../x,Suffix',
+      'dQw4w9WgXcQ,Valid'
+    ].join('\r\n'))
+    assert.deepEqual(videos.map(v => v.videoId), ['dQw4w9WgXcQ'])
+  })
+})
@@ -0,0 +1,273 @@
+/**
+ * Library export formats
+ *
+ * JSON is the complete, versioned format (videos with tags, chapters and watch
+ * state, plus collections). CSV carries one row per video for spreadsheets and
+ * reading lists. Channel subscriptions are exchanged as OPML, the format feed
+ * readers use for YouTube's per-channel RSS feeds.
+ */
+
+export const LIBRARY_FORMAT = 'tube-crawler-library'
+export const LIBRARY_FORMAT_VERSION = 1
+
+// IDs end up in file names (<videoId>.mp4, thumbnails), so anything else is dropped
+const VIDEO_ID_PATTERN = /^[\w-]{11}$/
+
+export interface ExportedWatchState {
+  position: number
+  duration?: number
+  watchTime: number
+  watched: boolean
+  watchedAt?: string
+}
+
+export interface ExportedVideo {
+  videoId: string
+  url: string
+  title: string
+  description?: string
+  thumbnailUrl?: string
+  duration: number
+  channelName: string
+  channelId?: string
+  uploadDate?: string
+  viewCount?: number
+  likeCount?: number
+  keywords?: string[]
+  category?: string
+  chapters?: { title: string; startMs: number }[]
+  tags?: string[]
+  watch?: ExportedWatchState
+  /** Downloaded file, relative to the export directory (only in bundles) */
+  file?: string
+  addedAt?: string
+}
+
+export interface ExportedCollection {
+  name: string
+  description?: string
+  /** Video IDs in collection order */
+  videoIds: string[]
+}
+
+export interface LibraryExport {
+  format: typeof LIBRARY_FORMAT
+  version: number
+  exportedAt: string
+  videos: ExportedVideo[]
+  collections: ExportedCollection[]
+}
+
+export interface OpmlChannel {
+  channelId: string
+  name: string
+}
+
+/**
+ * Validate a parsed JSON export and return it typed
+ */
+export function parseLibraryJson(text: string): LibraryExport {
+  const data = JSON.parse(text)
+  if (data?.format !== LIBRARY_FORMAT || !Array.isArray(data.videos)) {
+    throw new Error('Not a Tube Crawler library export')
+  }
+  if (typeof data.version !== 'number' || data.version > LIBRARY_FORMAT_VERSION) {
+    throw new Error(`Unsupported library export version ${data.version}; update the app to import it`)
+  }
+
+  const videos = (data.videos as ExportedVideo[]).filter(video => typeof video?.videoId === 'string' && VIDEO_ID_PATTERN.test(video.videoId))
+  const collections = Array.isArray(data.collections) ? data.collections as ExportedCollection[] : []
+  return { ...data, videos, collections: collections.filter(c => c?.name && Array.isArray(c.videoIds)) }
+}
+
+const CSV_COLUMNS = [
+  'video_id', 'url', 'title', 'channel', 'channel_id', 'duration', 'upload_date',
+  'view_count', 'like_count', 'category', 'tags', 'watched', 'position'
+] as const
+
+function escapeCsvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+}
+
+/**
+ * Serialize videos as CSV (tags are separated by semicolons)
+ */
+export function formatLibraryCsv(videos: ExportedVideo[]): string {
+  const rows = videos.map(video => [
+    video.videoId,
+    video.url,
+    video.title,
+    video.channelName,
+    video.channelId || '',
+    String(video.duration || 0),
+    video.uploadDate || '',
+    video.viewCount !== undefined ? String(video.viewCount) : '',
+    video.likeCount !== undefined ? String(video.likeCount) : '',
+    video.category || '',
+    (video.tags || []).join(';'),
+    video.watch?.watched ? '1' : '0',
+    String(Math.floor(video.watch?.position || 0))
+  ])
+  return [CSV_COLUMNS, ...rows].map(row => row.map(escapeCsvField).join(',')).join('\r\n') + '\r\n'
+}
+
+/**
+ * Split CSV text into rows of fields (RFC 4180 quoting, quoted fields may span lines)
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let quoted = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === ',') {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++
+      }
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+  return rows.filter(r => r.some(value => value.trim()))
+}
+
+/**
+ * Read videos from CSV; only video_id (or a watch URL) is required
+ */
+export function parseLibraryCsv(text: string): ExportedVideo[] {
+  const [header, ...rows] = parseCsv(text.replace(/^\uFEFF/, ''))
+  if (!header) {
+    return []
+  }
+
+  const columns = header.map(name => name.trim().toLowerCase())
+  const videos: ExportedVideo[] = []
+
+  for (const row of rows) {
+    const get = (name: typeof CSV_COLUMNS[number]) => {
+      const index = columns.indexOf(name)
+      return index === -1 ? '' : (row[index] || '').trim()
+    }
+    const number = (name: typeof CSV_COLUMNS[number]) => {
+      const value = parseInt(get(name))
+      return isNaN(value) ? undefined : value
+    }
+
+    const url = get('url')
+    const videoId = get('video_id') || url.match(/[?&]v=([\w-]{11})|youtu\.be\/([\w-]{11})/)?.slice(1).find(Boolean)
+    if (!videoId || !VIDEO_ID_PATTERN.test(videoId)) {
+      continue
+    }
+
+    const watched = ['1', 'true', 'yes'].includes(get('watched').toLowerCase())
+    const position = number('position') || 0
+    videos.push({
+      videoId,
+      url: url || `https://www.youtube.com/watch?v=${videoId}`,
+      title: get('title') || 'Untitled',
+      channelName: get('channel') || 'Unknown',
+      channelId: get('channel_id') || undefined,
+      duration: number('duration') || 0,
+      uploadDate: get('upload_date') || undefined,
+      viewCount: number('view_count'),
+      likeCount: number('like_count'),
+      category: get('category') || undefined,
+      tags: get('tags').split(';').map(tag => tag.trim()).filter(Boolean),
+      watch: watched || position > 0 ? { position, watchTime: 0, watched } : undefined
+    })
+  }
+
+  return videos
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+function unescapeXml(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(parseInt(code)))
+    .replace(/&amp;/g, '&')
+}
+
+/**
+ * Serialize channel subscriptions as OPML with their RSS feed URLs
+ */
+export function formatOpml(channels: OpmlChannel[]): string {
+  const outlines = channels.map(channel => {
+    const name = escapeXml(channel.name)
+    const feedUrl = `https://www.youtube.com/feeds/videos.xml?channel_id=${channel.channelId}`
+    const htmlUrl = `https://www.youtube.com/channel/${channel.channelId}`
+    return `      <outline text="${name}" title="${name}" type="rss" xmlUrl="${escapeXml(feedUrl)}" htmlUrl="${htmlUrl}" />`
+  })
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<opml version="1.1">',
+    '  <head>',
+    '    <title>Tube Crawler subscriptions</title>',
+    '  </head>',
+    '  <body>',
+    '    <outline text="YouTube Subscriptions" title="YouTube Subscriptions">',
+    ...outlines,
+    '    </outline>',
+    '  </body>',
+    '</opml>',
+    ''
+  ].join('\n')
+}
+
+/**
+ * Read YouTube channels from an OPML file (outlines whose feed or page URL has a channel ID)
+ */
+export function parseOpml(text: string): OpmlChannel[] {
+  const channels: OpmlChannel[] = []
+
+  for (const [outline] of text.matchAll(/<outline\b[^>]*>/g)) {
+    const attributes = new Map<string, string>()
+    for (const [, name, value] of outline.matchAll(/([\w:-]+)\s*=\s*"([^"]*)"/g)) {
+      attributes.set(name.toLowerCase(), unescapeXml(value))
+    }
+
+    const urls = `${attributes.get('xmlurl') || ''} ${attributes.get('htmlurl') || ''}`
+    const channelId = urls.match(/(?:channel_id=|\/channel\/)(UC[\w-]{22})/)?.[1]
+    if (channelId && !channels.some(c => c.channelId === channelId)) {
+      channels.push({ channelId, name: attributes.get('title') || attributes.get('text') || channelId })
+    }
+  }
+
+  return channels
+}
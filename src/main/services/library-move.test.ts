@@ -0,0 +1,28 @@
+import { afterEach, describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { ApiError } from '../../ipc-contract.js'
+import { assertLibraryNotMoving, isLibraryMoving, setLibraryMoving } from './library-move.js'
+
+describe('assertLibraryNotMoving', () => {
+  afterEach(() => setLibraryMoving(false))
+
+  it('allows actions when no move is running', () => {
+    assert.equal(isLibraryMoving(), false)
+    assert.doesNotThrow(() => assertLibraryNotMoving('resume downloads'))
+  })
+
+  it('refuses actions with a CONFLICT error while the library is moving', () => {
+    setLibraryMoving(true)
+    assert.throws(
+      () => assertLibraryNotMoving('resume downloads'),
+      (error: unknown) => error instanceof ApiError && error.code === 'CONFLICT' &&
+        error.message === 'Cannot resume downloads while the library is being moved'
+    )
+  })
+
+  it('allows actions again once the move has finished', () => {
+    setLibraryMoving(true)
+    setLibraryMoving(false)
+    assert.doesNotThrow(() => assertLibraryNotMoving('queue a download'))
+  })
+})
@@ -0,0 +1,28 @@
+import { ApiError } from '../../ipc-contract.js'
+
+/**
+ * Library move state
+ *
+ * While the library is moved, nothing may start writing to the downloads
+ * folder. The queue and the integrity repairs check this before acting; it
+ * lives apart from the storage service, which depends on the queue.
+ */
+
+let moving = false
+
+export function isLibraryMoving(): boolean {
+  return moving
+}
+
+export function setLibraryMoving(value: boolean) {
+  moving = value
+}
+
+/**
+ * Refuse an action that would write to the library while it is being moved
+ */
+export function assertLibraryNotMoving(action: string) {
+  if (moving) {
+    throw new ApiError('CONFLICT', `Cannot ${action} while the library is being moved`)
+  }
+}
@@ -0,0 +1,370 @@
+import path from 'path'
+import fs from 'fs'
+import { databaseService, type Video, type WatchProgress } from './database.service.js'
+import { downloadService } from './download.service.js'
+import { channelService } from './channel.service.js'
+import { thumbnailService } from './thumbnail.service.js'
+import {
+  LIBRARY_FORMAT,
+  LIBRARY_FORMAT_VERSION,
+  formatLibraryCsv,
+  formatOpml,
+  parseLibraryCsv,
+  parseLibraryJson,
+  parseOpml,
+  type ExportedCollection,
+  type ExportedVideo,
+  type LibraryExport
+} from './library-format.js'
+
+export type ExportFormat = 'json' | 'csv' | 'opml'
+
+export interface ExportOptions {
+  /** Copy downloaded files next to library.json (JSON only); the target is then a directory */
+  includeFiles?: boolean
+}
+
+export interface ExportResult {
+  path: string
+  videos: number
+  collections: number
+  channels: number
+  files: number
+}
+
+export interface ImportReport {
+  dryRun: boolean
+  format: ExportFormat
+  videosAdded: number
+  /** Existing videos that gain tags, watch state or a file */
+  videosMerged: number
+  videosUnchanged: number
+  tagsCreated: number
+  tagAssignments: number
+  collectionsCreated: number
+  collectionVideosAdded: number
+  watchStatesUpdated: number
+  filesCopied: number
+  channelsSubscribed: number
+  channelsSkipped: number
+  errors: string[]
+}
+
+const BUNDLE_MANIFEST = 'library.json'
+const BUNDLE_FILES_DIR = 'files'
+// Bundled media must be named <videoId>.<ext>, as in the downloads folder
+const BUNDLE_MEDIA_PATTERN = /^([\w-]{11})\.(mp4|m4a|webm|mkv)$/
+
+function getImportFormat(filePath: string): ExportFormat {
+  const extension = path.extname(filePath).toLowerCase()
+  if (extension === '.csv') {
+    return 'csv'
+  }
+  if (extension === '.opml' || extension === '.xml') {
+    return 'opml'
+  }
+  return 'json'
+}
+
+function emptyReport(dryRun: boolean, format: ExportFormat): ImportReport {
+  return {
+    dryRun,
+    format,
+    videosAdded: 0,
+    videosMerged: 0,
+    videosUnchanged: 0,
+    tagsCreated: 0,
+    tagAssignments: 0,
+    collectionsCreated: 0,
+    collectionVideosAdded: 0,
+    watchStatesUpdated: 0,
+    filesCopied: 0,
+    channelsSubscribed: 0,
+    channelsSkipped: 0,
+    errors: []
+  }
+}
+
+/**
+ * Library export and import
+ *
+ * Imports merge into the current library, deduplicated by video ID: existing
+ * videos keep their metadata and only gain tags, collection entries, watch
+ * state and (from bundles) downloaded files. With `dryRun` nothing is written
+ * and the report describes what the import would change.
+ */
+class LibraryService {
+  private toExportedVideo(
+    video: Video,
+    tags: Map<string, string[]>,
+    progress: Map<string, WatchProgress>
+  ): ExportedVideo {
+    const watch = progress.get(video.videoId)
+    const chapters = databaseService.getChapters(video.videoId)
+
+    return {
+      videoId: video.videoId,
+      url: video.url,
+      title: video.title,
+      description: video.description || undefined,
+      thumbnailUrl: video.thumbnailUrl || undefined,
+      duration: video.duration,
+      channelName: video.channelName,
+      channelId: video.channelId,
+      uploadDate: video.uploadDate || undefined,
+      viewCount: video.viewCount ?? undefined,
+      likeCount: video.likeCount ?? undefined,
+      keywords: video.keywords.length > 0 ? video.keywords : undefined,
+      category: video.category || undefined,
+      chapters: chapters.length > 0 ? chapters : undefined,
+      tags: tags.get(video.videoId),
+      watch: watch
+        ? {
+            position: watch.position,
+            duration: watch.duration ?? undefined,
+            watchTime: watch.watchTime,
+            watched: watch.watched,
+            watchedAt: watch.watchedAt || undefined
+          }
+        : undefined,
+      addedAt: video.createdAt
+    }
+  }
+
+  private buildExport(): LibraryExport {
+    const tags = databaseService.getTagNamesByVideo()
+    const progress = databaseService.getWatchProgressByVideo()
+    const videos = databaseService.getAllVideos().map(video => this.toExportedVideo(video, tags, progress))
+
+    const collections: ExportedCollection[] = databaseService.getAllCollections().map(collection => ({
+      name: collection.name,
+      description: collection.description || undefined,
+      videoIds: databaseService.getCollectionVideoIds(collection.id)
+    }))
+
+    return {
+      format: LIBRARY_FORMAT,
+      version: LIBRARY_FORMAT_VERSION,
+      exportedAt: new Date().toISOString(),
+      videos,
+      collections
+    }
+  }
+
+  /**
+   * Write the library (or, for OPML, the channel subscriptions) to `targetPath`
+   */
+  async exportLibrary(targetPath: string, format: ExportFormat, options: ExportOptions = {}): Promise<ExportResult> {
+    if (format === 'opml') {
+      const channels = databaseService.getAllChannels()
+      await fs.promises.writeFile(targetPath, formatOpml(channels.map(c => ({ channelId: c.channelId, name: c.name }))), 'utf-8')
+      console.log('Exported subscriptions:', targetPath)
+      return { path: targetPath, videos: 0, collections: 0, channels: channels.length, files: 0 }
+    }
+
+    const data = this.buildExport()
+
+    if (format === 'csv') {
+      await fs.promises.writeFile(targetPath, formatLibraryCsv(data.videos), 'utf-8')
+      console.log('Exported library as CSV:', targetPath)
+      return { path: targetPath, videos: data.videos.length, collections: 0, channels: 0, files: 0 }
+    }
+
+    let files = 0
+    let manifestPath = targetPath
+
+    if (options.includeFiles) {
+      // Bundle: <target>/library.json plus <target>/files/<downloaded file>
+      const filesDir = path.join(targetPath, BUNDLE_FILES_DIR)
+      await fs.promises.mkdir(filesDir, { recursive: true })
+      manifestPath = path.join(targetPath, BUNDLE_MANIFEST)
+
+      for (const exported of data.videos) {
+        const video = databaseService.getVideoByVideoId(exported.videoId)
+        if (video?.downloadStatus !== 'completed' || !video.filePath || !fs.existsSync(video.filePath)) {
+          continue
+        }
+        const fileName = path.basename(video.filePath)
+        await fs.promises.copyFile(video.filePath, path.join(filesDir, fileName))
+        exported.file = `${BUNDLE_FILES_DIR}/${fileName}`
+        files++
+      }
+    }
+
+    await fs.promises.writeFile(manifestPath, JSON.stringify(data, null, 2), 'utf-8')
+    console.log(`Exported library: ${manifestPath} (${data.videos.length} videos, ${files} files)`)
+    return { path: manifestPath, videos: data.videos.length, collections: data.collections.length, channels: 0, files }
+  }
+
+  /**
+   * Import a JSON export, bundle manifest, CSV or OPML file
+   */
+  async importLibrary(filePath: string, options: { dryRun?: boolean } = {}): Promise<ImportReport> {
+    const dryRun = options.dryRun ?? false
+    const format = getImportFormat(filePath)
+    const report = emptyReport(dryRun, format)
+    const text = await fs.promises.readFile(filePath, 'utf-8')
+
+    if (format === 'opml') {
+      await this.importChannels(text, report)
+      return report
+    }
+
+    const data = format === 'csv'
+      ? { videos: parseLibraryCsv(text), collections: [] }
+      : parseLibraryJson(text)
+
+    const baseDir = path.dirname(filePath)
+    for (const video of data.videos) {
+      try {
+        await this.importVideo(video, baseDir, report)
+      } catch (error) {
+        report.errors.push(`${video.videoId}: ${error instanceof Error ? error.message : String(error)}`)
+      }
+    }
+
+    this.importCollections(data.collections, new Set(data.videos.map(video => video.videoId)), report)
+
+    if (!dryRun && report.videosAdded > 0) {
+      thumbnailService.backfill()
+    }
+    console.log(`Library import${dryRun ? ' (dry run)' : ''}:`, filePath, report)
+    return report
+  }
+
+  private async importVideo(exported: ExportedVideo, baseDir: string, report: ImportReport) {
+    const dryRun = report.dryRun
+    const existing = databaseService.getVideoByVideoId(exported.videoId)
+    let changed = false
+
+    if (!existing && !dryRun) {
+      databaseService.addVideo({
+        videoId: exported.videoId,
+        url: exported.url,
+        title: exported.title,
+        thumbnailUrl: exported.thumbnailUrl || '',
+        duration: exported.duration || 0,
+        channelName: exported.channelName,
+        description: exported.description,
+        uploadDate: exported.uploadDate
+      })
+      databaseService.updateVideoDetails(exported.videoId, {
+        channelId: exported.channelId,
+        publishDate: exported.uploadDate,
+        viewCount: exported.viewCount,
+        likeCount: exported.likeCount,
+        keywords: exported.keywords || [],
+        category: exported.category,
+        chapters: exported.chapters || []
+      })
+    }
+
+    // Tags
+    const localTags = existing ? databaseService.getTagNamesByVideo().get(exported.videoId) || [] : []
+    const knownTags = databaseService.getAllTags()
+    for (const name of exported.tags || []) {
+      if (localTags.some(tag => tag.toLowerCase() === name.toLowerCase())) {
+        continue
+      }
+      if (!knownTags.some(tag => tag.name.toLowerCase() === name.toLowerCase())) {
+        report.tagsCreated++
+        knownTags.push({ id: -1, name, videoCount: 0 })
+      }
+      report.tagAssignments++
+      changed = true
+      if (!dryRun) {
+        databaseService.addTagToVideos(databaseService.createTag(name).id, [exported.videoId])
+      }
+    }
+
+    // Watch state
+    if (exported.watch) {
+      const local = existing ? databaseService.getWatchProgress(exported.videoId) : undefined
+      const gainsWatched = exported.watch.watched && !local?.watched
+      const gainsPosition = exported.watch.position > 0 && !(local && local.position > 0)
+      if (gainsWatched || gainsPosition) {
+        report.watchStatesUpdated++
+        changed = true
+        if (!dryRun) {
+          databaseService.mergeWatchProgress(exported.videoId, exported.watch)
+        }
+      }
+    }
+
+    // Downloaded file from a bundle
+    if (exported.file && existing?.downloadStatus !== 'completed') {
+      const source = path.resolve(baseDir, exported.file)
+      if (!source.startsWith(path.resolve(baseDir) + path.sep) || !fs.existsSync(source)) {
+        report.errors.push(`${exported.videoId}: bundled file missing (${exported.file})`)
+      } else if (path.basename(source).match(BUNDLE_MEDIA_PATTERN)?.[1] !== exported.videoId) {
+        report.errors.push(`${exported.videoId}: bundled file name does not match the video (${exported.file})`)
+      } else {
+        report.filesCopied++
+        changed = true
+        if (!dryRun) {
+          // Named from the video ID so an entry can't overwrite another video's file
+          const target = path.join(downloadService.getDownloadsPath(), `${exported.videoId}${path.extname(source)}`)
+          await fs.promises.copyFile(source, target)
+          const { size } = await fs.promises.stat(target)
+          databaseService.updateDownloadComplete(exported.videoId, target, size)
+        }
+      }
+    }
+
+    if (!existing) {
+      report.videosAdded++
+    } else if (changed) {
+      report.videosMerged++
+    } else {
+      report.videosUnchanged++
+    }
+  }
+
+  /**
+   * Merge collections by name (case-insensitive), appending videos they don't contain yet
+   */
+  private importCollections(collections: ExportedCollection[], importedIds: Set<string>, report: ImportReport) {
+    const local = databaseService.getAllCollections()
+
+    for (const imported of collections) {
+      const match = local.find(c => c.name.toLowerCase() === imported.name.toLowerCase())
+      const currentIds = match ? databaseService.getCollectionVideoIds(match.id) : []
+      // In a dry run, videos that would have been added don't exist yet
+      const videoIds = imported.videoIds.filter(id =>
+        !currentIds.includes(id) &&
+        (databaseService.getVideoByVideoId(id) !== undefined || (report.dryRun && importedIds.has(id)))
+      )
+
+      if (!match) {
+        report.collectionsCreated++
+      }
+      report.collectionVideosAdded += videoIds.length
+
+      if (!report.dryRun && (videoIds.length > 0 || !match)) {
+        const collectionId = match?.id ?? databaseService.createCollection(imported.name, imported.description).id
+        databaseService.addVideosToCollection(collectionId, videoIds)
+      }
+    }
+  }
+
+  private async importChannels(text: string, report: ImportReport) {
+    for (const channel of parseOpml(text)) {
+      if (databaseService.getChannel(channel.channelId)) {
+        report.channelsSkipped++
+        continue
+      }
+      if (report.dryRun) {
+        report.channelsSubscribed++
+        continue
+      }
+      try {
+        await channelService.subscribe(channel.channelId)
+        report.channelsSubscribed++
+      } catch (error) {
+        report.errors.push(`${channel.name}: ${error instanceof Error ? error.message : String(error)}`)
+      }
+    }
+  }
+}
+
+export const libraryService = new LibraryService()
@@ -0,0 +1,103 @@
+import { app } from 'electron'
+import path from 'path'
+import fs from 'fs'
+
+export type LockOwner = 'app' | 'cli'
+
+export interface LockInfo {
+  pid: number
+  owner: LockOwner
+  acquiredAt: string
+}
+
+/**
+ * The library is in use by another process
+ */
+export class LockError extends Error {
+  readonly holder: LockInfo
+
+  constructor(holder: LockInfo) {
+    super(holder.owner === 'app'
+      ? `Tube Crawler is running (pid ${holder.pid}); close it and try again`
+      : `A tube-crawler command is running (pid ${holder.pid}); try again when it has finished`)
+    this.name = 'LockError'
+    this.holder = holder
+  }
+}
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0)
+    return true
+  } catch (error) {
+    // EPERM: the process exists but belongs to someone else
+    return (error as NodeJS.ErrnoException).code === 'EPERM'
+  }
+}
+
+/**
+ * Library lock shared by the app and the command line
+ *
+ * Only one process at a time may write to the database, settings and download
+ * folder. The holder's pid is kept in a lock file next to the database; a lock
+ * left behind by a crashed process is taken over once its pid is gone.
+ */
+class LockService {
+  private lockPath: string
+  private held = false
+
+  constructor() {
+    this.lockPath = path.join(app.getPath('userData'), 'library.lock')
+  }
+
+  /**
+   * Take the lock, or throw a LockError naming the process that holds it
+   */
+  acquire(owner: LockOwner) {
+    if (this.held) {
+      return
+    }
+
+    const info: LockInfo = { pid: process.pid, owner, acquiredAt: new Date().toISOString() }
+    for (let attempt = 0; attempt < 2; attempt++) {
+      try {
+        fs.writeFileSync(this.lockPath, JSON.stringify(info), { flag: 'wx' })
+        this.held = true
+        return
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+          throw error
+        }
+      }
+
+      const holder = this.getHolder()
+      if (holder && isProcessAlive(holder.pid)) {
+        throw new LockError(holder)
+      }
+      console.log('Removing stale library lock:', holder)
+      fs.rmSync(this.lockPath, { force: true })
+    }
+    throw new Error(`Could not create ${this.lockPath}`)
+  }
+
+  release() {
+    if (!this.held) {
+      return
+    }
+    fs.rmSync(this.lockPath, { force: true })
+    this.held = false
+  }
+
+  /**
+   * The process holding the lock, if any (possibly one that has since crashed)
+   */
+  getHolder(): LockInfo | null {
+    try {
+      return JSON.parse(fs.readFileSync(this.lockPath, 'utf-8')) as LockInfo
+    } catch {
+      return null
+    }
+  }
+}
+
+export const lockService = new LockService()
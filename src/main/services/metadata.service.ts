@@ -0,0 +1,227 @@
+import { EventEmitter } from 'events'
+import { youtubeService } from './youtube.service.js'
+import { databaseService, type AvailabilityStatus, type Video } from './database.service.js'
+import { settingsService } from './settings.service.js'
+import { thumbnailService } from './thumbnail.service.js'
+import { extractVideoDetails } from './video-details.js'
+import { classifyDownloadError, classifyPlayability, type DownloadErrorCode } from './download-error.js'
+
+// How often the scheduler looks for videos that are due for a refresh
+const SCHEDULER_TICK_MS = 5 * 60 * 1000
+// Videos refreshed per tick, with a pause in between so YouTube doesn't throttle us
+const BATCH_SIZE = 25
+const REQUEST_DELAY_MS = 2000
+// Bulk refreshes give up after this many network failures in a row
+const MAX_CONSECUTIVE_FAILURES = 5
+
+const AVAILABILITY_BY_CODE: Partial<Record<DownloadErrorCode, AvailabilityStatus>> = {
+  PRIVATE: 'private',
+  REMOVED: 'removed',
+  REGION_BLOCKED: 'region_blocked',
+  AGE_RESTRICTED: 'restricted',
+  LOGIN_REQUIRED: 'restricted'
+}
+
+export interface VideoUnavailableEvent {
+  video: Video
+  status: AvailabilityStatus
+  reason?: string
+}
+
+export interface BulkRefreshResult {
+  refreshed: number
+  failed: number
+  /** Videos left for the scheduler after a cancel or a network outage */
+  remaining: number
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms))
+}
+
+/**
+ * Thumbnail URLs carry per-request signing parameters; compare the image path only
+ */
+function sameImage(a: string, b: string): boolean {
+  return a.split('?')[0] === b.split('?')[0]
+}
+
+/**
+ * Periodic metadata refresh and availability monitoring
+ *
+ * Every library video is re-fetched on the configured interval. Playable videos
+ * get their title, description, thumbnail, counts and chapters updated; for the
+ * others the reason they can't be played is recorded. Availability changes are
+ * kept as history.
+ *
+ * Events:
+ * - 'videoUnavailable' VideoUnavailableEvent, when a video that isn't downloaded yet disappears
+ */
+class MetadataService extends EventEmitter {
+  private timer: NodeJS.Timeout | null = null
+  private refreshing = false
+
+  /**
+   * Re-fetch a video's metadata and record its availability
+   * Network failures are thrown without recording anything. With `notify: false`
+   * no 'videoUnavailable' event is emitted (bulk imports of old history).
+   */
+  async refreshVideo(videoId: string, options: { notify?: boolean } = {}): Promise<Video> {
+    const video = databaseService.getVideoByVideoId(videoId)
+    if (!video) {
+      throw new Error('Video not found')
+    }
+
+    let status: AvailabilityStatus = 'available'
+    let reason: string | undefined
+
+    try {
+      const youtube = await youtubeService.getClient()
+      const info = await youtube.getInfo(videoId)
+      const playability = info.playability_status
+
+      // Offline live streams come back later; they are not gone
+      const unplayable = playability?.status === 'LIVE_STREAM_OFFLINE'
+        ? null
+        : classifyPlayability(playability?.status, playability?.reason)
+
+      if (unplayable) {
+        status = AVAILABILITY_BY_CODE[unplayable.code] || 'removed'
+        reason = unplayable.message
+      } else {
+        const basicInfo = info.basic_info
+        const thumbnailUrl = basicInfo.thumbnail?.[0]?.url
+        databaseService.updateVideoMetadata(videoId, {
+          title: basicInfo.title || video.title,
+          description: basicInfo.short_description ?? video.description,
+          thumbnailUrl,
+          duration: basicInfo.duration,
+          channelName: basicInfo.author
+        })
+        databaseService.updateVideoDetails(videoId, extractVideoDetails(info))
+
+        if (thumbnailUrl && !sameImage(thumbnailUrl, video.thumbnailUrl)) {
+          thumbnailService.deleteThumbnail(video)
+          databaseService.updateThumbnailPath(videoId, null)
+          thumbnailService.enqueue([videoId])
+        }
+      }
+    } catch (error) {
+      const downloadError = classifyDownloadError(error)
+      const mapped = AVAILABILITY_BY_CODE[downloadError.code]
+      if (!mapped) {
+        throw error
+      }
+      status = mapped
+      reason = downloadError.message
+    }
+
+    const previous = databaseService.recordAvailability(videoId, status, reason)
+    if (previous !== status) {
+      console.log(`Availability of ${videoId}: ${previous || 'unknown'} -> ${status}`)
+    }
+
+    // Only videos we could have saved are worth an alert
+    const wasAvailable = previous === undefined || previous === 'available'
+    const notify = options.notify ?? true
+    if (notify && status !== 'available' && wasAvailable && video.downloadStatus !== 'completed') {
+      const event: VideoUnavailableEvent = { video, status, reason }
+      this.emit('videoUnavailable', event)
+    }
+
+    return databaseService.getVideoByVideoId(videoId)!
+  }
+
+  /**
+   * Refresh a list of videos one at a time, e.g. right after a bulk import
+   * The scheduler holds off meanwhile. Stops early when `signal` is aborted or
+   * the network looks down; the rest are picked up by the scheduler later since
+   * they have never been checked.
+   */
+  async refreshVideos(
+    videoIds: string[],
+    options: { signal?: AbortSignal; onProgress?: (done: number, failed: number) => void } = {}
+  ): Promise<BulkRefreshResult> {
+    const result: BulkRefreshResult = { refreshed: 0, failed: 0, remaining: videoIds.length }
+    let consecutiveFailures = 0
+
+    // Let a scheduled batch that's already running finish first
+    while (this.refreshing) {
+      await sleep(1000)
+    }
+    this.refreshing = true
+    try {
+      for (const videoId of videoIds) {
+        if (options.signal?.aborted || consecutiveFailures >= MAX_CONSECUTIVE_FAILURES) {
+          break
+        }
+
+        try {
+          await this.refreshVideo(videoId, { notify: false })
+          result.refreshed++
+          consecutiveFailures = 0
+        } catch (error) {
+          console.error('Metadata refresh failed:', videoId, error)
+          result.failed++
+          consecutiveFailures++
+        }
+        result.remaining--
+        options.onProgress?.(result.refreshed, result.failed)
+        await sleep(REQUEST_DELAY_MS)
+      }
+    } finally {
+      this.refreshing = false
+    }
+
+    return result
+  }
+
+  /**
+   * Refresh the videos whose last check is older than the configured interval
+   */
+  private async refreshDueVideos() {
+    if (this.refreshing) {
+      return
+    }
+    this.refreshing = true
+
+    try {
+      const intervalHours = settingsService.get('metadataRefreshIntervalHours')
+      const videos = databaseService.getVideosDueForRefresh(intervalHours, BATCH_SIZE)
+
+      for (const video of videos) {
+        try {
+          await this.refreshVideo(video.videoId)
+        } catch (error) {
+          // Likely offline; try again on the next tick
+          console.error('Metadata refresh failed:', video.videoId, error)
+          break
+        }
+        await sleep(REQUEST_DELAY_MS)
+      }
+    } finally {
+      this.refreshing = false
+    }
+  }
+
+  /**
+   * Start refreshing library metadata in the background
+   */
+  startScheduler() {
+    if (this.timer) {
+      return
+    }
+    this.timer = setInterval(() => this.refreshDueVideos(), SCHEDULER_TICK_MS)
+    this.refreshDueVideos()
+    console.log('Metadata refresh scheduler started')
+  }
+
+  stopScheduler() {
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+  }
+}
+
+export const metadataService = new MetadataService()
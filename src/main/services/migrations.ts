@@ -0,0 +1,379 @@
+import type Database from 'better-sqlite3'
+
+/**
+ * Versioned schema migrations for videos.db
+ *
+ * The database's `PRAGMA user_version` holds the version of the last applied
+ * migration. Pending migrations run in order at startup, each in its own
+ * transaction together with the version bump. Never edit a released migration:
+ * add a new one at the end of the list instead.
+ *
+ * Databases created before versioning (user_version 0) already contain some of
+ * these tables and columns, so the early steps are written to be idempotent.
+ */
+export interface Migration {
+  version: number
+  description: string
+  up: (db: Database.Database) => void
+}
+
+/**
+ * Raised when a migration fails; the database is left at the last good version
+ */
+export class MigrationError extends Error {
+  readonly version: number
+  readonly backupPath?: string
+
+  constructor(version: number, description: string, cause: unknown, backupPath?: string) {
+    const reason = cause instanceof Error ? cause.message : String(cause)
+    super(`Database migration ${version} (${description}) failed: ${reason}`)
+    this.name = 'MigrationError'
+    this.version = version
+    this.backupPath = backupPath
+  }
+}
+
+function addColumnIfMissing(db: Database.Database, table: string, column: string, definition: string) {
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[]
+  if (!columns.some(c => c.name === column)) {
+    db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`)
+  }
+}
+
+export const migrations: Migration[] = [
+  {
+    version: 1,
+    description: 'Initial schema',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS videos (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          video_id TEXT UNIQUE NOT NULL,
+          url TEXT NOT NULL,
+          title TEXT NOT NULL,
+          description TEXT,
+          thumbnail_url TEXT,
+          thumbnail_path TEXT,
+          duration INTEGER,
+          channel_name TEXT,
+          upload_date TEXT,
+          file_path TEXT,
+          file_size INTEGER,
+          download_status TEXT DEFAULT 'pending',
+          download_progress INTEGER DEFAULT 0,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_video_id ON videos(video_id);
+        CREATE INDEX IF NOT EXISTS idx_title ON videos(title);
+        CREATE INDEX IF NOT EXISTS idx_download_status ON videos(download_status);
+
+        CREATE TRIGGER IF NOT EXISTS update_videos_timestamp
+        AFTER UPDATE ON videos
+        BEGIN
+          UPDATE videos SET updated_at = CURRENT_TIMESTAMP WHERE id = NEW.id;
+        END;
+      `)
+    }
+  },
+  {
+    version: 2,
+    description: 'Download queue, resumable downloads and error tracking',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS download_jobs (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          video_id TEXT UNIQUE NOT NULL,
+          url TEXT NOT NULL,
+          priority INTEGER DEFAULT 0,
+          status TEXT DEFAULT 'queued',
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (video_id) REFERENCES videos(video_id) ON DELETE CASCADE
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_download_jobs_order ON download_jobs(status, priority DESC, id);
+
+        CREATE TABLE IF NOT EXISTS partial_downloads (
+          video_id TEXT PRIMARY KEY,
+          itag INTEGER NOT NULL,
+          content_length INTEGER NOT NULL,
+          downloaded_bytes INTEGER DEFAULT 0,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (video_id) REFERENCES videos(video_id) ON DELETE CASCADE
+        );
+      `)
+
+      addColumnIfMissing(db, 'videos', 'download_attempts', 'INTEGER DEFAULT 0')
+      addColumnIfMissing(db, 'videos', 'last_error_code', 'TEXT')
+      addColumnIfMissing(db, 'videos', 'last_error_message', 'TEXT')
+      addColumnIfMissing(db, 'download_jobs', 'options', 'TEXT')
+      addColumnIfMissing(db, 'partial_downloads', 'audio_itag', 'INTEGER')
+      addColumnIfMissing(db, 'partial_downloads', 'audio_content_length', 'INTEGER')
+    }
+  },
+  {
+    version: 3,
+    description: 'Playlists',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS playlists (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          playlist_id TEXT UNIQUE NOT NULL,
+          url TEXT NOT NULL,
+          title TEXT NOT NULL,
+          description TEXT,
+          channel_name TEXT,
+          thumbnail_url TEXT,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+
+        CREATE TABLE IF NOT EXISTS playlist_videos (
+          playlist_id TEXT NOT NULL,
+          video_id TEXT NOT NULL,
+          position INTEGER NOT NULL,
+          PRIMARY KEY (playlist_id, video_id),
+          FOREIGN KEY (playlist_id) REFERENCES playlists(playlist_id) ON DELETE CASCADE,
+          FOREIGN KEY (video_id) REFERENCES videos(video_id) ON DELETE CASCADE
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_playlist_videos_video ON playlist_videos(video_id);
+      `)
+    }
+  },
+  {
+    version: 4,
+    description: 'Channel subscriptions',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS channels (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          channel_id TEXT UNIQUE NOT NULL,
+          handle TEXT,
+          name TEXT NOT NULL,
+          url TEXT NOT NULL,
+          thumbnail_url TEXT,
+          auto_download INTEGER DEFAULT 0,
+          max_duration INTEGER,
+          keyword_filter TEXT,
+          max_age_days INTEGER,
+          last_checked_at DATETIME,
+          last_check_error TEXT,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+      `)
+    }
+  },
+  {
+    version: 5,
+    description: 'Full-text search index',
+    up: (db) => {
+      // Dropped and rebuilt so the index matches the rows it was created from
+      db.exec(`
+        DROP TRIGGER IF EXISTS videos_fts_insert;
+        DROP TRIGGER IF EXISTS videos_fts_delete;
+        DROP TRIGGER IF EXISTS videos_fts_update;
+        DROP TABLE IF EXISTS videos_fts;
+
+        CREATE VIRTUAL TABLE videos_fts USING fts5(
+          title, description, channel_name,
+          content = 'videos', content_rowid = 'id',
+          tokenize = 'unicode61 remove_diacritics 2'
+        );
+
+        CREATE TRIGGER videos_fts_insert AFTER INSERT ON videos BEGIN
+          INSERT INTO videos_fts (rowid, title, description, channel_name)
+          VALUES (new.id, new.title, new.description, new.channel_name);
+        END;
+
+        CREATE TRIGGER videos_fts_delete AFTER DELETE ON videos BEGIN
+          INSERT INTO videos_fts (videos_fts, rowid, title, description, channel_name)
+          VALUES ('delete', old.id, old.title, old.description, old.channel_name);
+        END;
+
+        CREATE TRIGGER videos_fts_update AFTER UPDATE OF title, description, channel_name ON videos BEGIN
+          INSERT INTO videos_fts (videos_fts, rowid, title, description, channel_name)
+          VALUES ('delete', old.id, old.title, old.description, old.channel_name);
+          INSERT INTO videos_fts (rowid, title, description, channel_name)
+          VALUES (new.id, new.title, new.description, new.channel_name);
+        END;
+
+        INSERT INTO videos_fts (videos_fts) VALUES ('rebuild');
+      `)
+    }
+  },
+  {
+    version: 6,
+    description: 'Subtitles',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE subtitles (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          video_id TEXT NOT NULL,
+          language_code TEXT NOT NULL,
+          name TEXT NOT NULL,
+          kind TEXT NOT NULL,
+          file_path TEXT NOT NULL,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          UNIQUE (video_id, language_code, kind),
+          FOREIGN KEY (video_id) REFERENCES videos(video_id) ON DELETE CASCADE
+        );
+      `)
+    }
+  },
+  {
+    version: 7,
+    description: 'Transcript search',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE transcript_segments (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          subtitle_id INTEGER NOT NULL,
+          video_id TEXT NOT NULL,
+          start_ms INTEGER NOT NULL,
+          end_ms INTEGER NOT NULL,
+          text TEXT NOT NULL,
+          FOREIGN KEY (subtitle_id) REFERENCES subtitles(id) ON DELETE CASCADE,
+          FOREIGN KEY (video_id) REFERENCES videos(video_id) ON DELETE CASCADE
+        );
+
+        CREATE INDEX idx_transcript_segments_subtitle ON transcript_segments(subtitle_id);
+        CREATE INDEX idx_transcript_segments_video ON transcript_segments(video_id);
+
+        CREATE VIRTUAL TABLE transcript_fts USING fts5(
+          text,
+          content = 'transcript_segments', content_rowid = 'id',
+          tokenize = 'unicode61 remove_diacritics 2'
+        );
+
+        CREATE TRIGGER transcript_fts_insert AFTER INSERT ON transcript_segments BEGIN
+          INSERT INTO transcript_fts (rowid, text) VALUES (new.id, new.text);
+        END;
+
+        CREATE TRIGGER transcript_fts_delete AFTER DELETE ON transcript_segments BEGIN
+          INSERT INTO transcript_fts (transcript_fts, rowid, text) VALUES ('delete', old.id, old.text);
+        END;
+      `)
+    }
+  },
+  {
+    version: 8,
+    description: 'Tags and collections',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE tags (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          name TEXT UNIQUE NOT NULL COLLATE NOCASE,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+
+        CREATE TABLE video_tags (
+          video_id TEXT NOT NULL,
+          tag_id INTEGER NOT NULL,
+          PRIMARY KEY (video_id, tag_id),
+          FOREIGN KEY (video_id) REFERENCES videos(video_id) ON DELETE CASCADE,
+          FOREIGN KEY (tag_id) REFERENCES tags(id) ON DELETE CASCADE
+        );
+
+        CREATE INDEX idx_video_tags_tag ON video_tags(tag_id);
+
+        CREATE TABLE collections (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          name TEXT NOT NULL,
+          description TEXT,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+
+        CREATE TABLE collection_videos (
+          collection_id INTEGER NOT NULL,
+          video_id TEXT NOT NULL,
+          position INTEGER NOT NULL,
+          PRIMARY KEY (collection_id, video_id),
+          FOREIGN KEY (collection_id) REFERENCES collections(id) ON DELETE CASCADE,
+          FOREIGN KEY (video_id) REFERENCES videos(video_id) ON DELETE CASCADE
+        );
+
+        CREATE INDEX idx_collection_videos_video ON collection_videos(video_id);
+      `)
+    }
+  },
+  {
+    version: 9,
+    description: 'Watch progress and history',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE watch_progress (
+          video_id TEXT PRIMARY KEY,
+          position REAL NOT NULL DEFAULT 0,
+          duration REAL,
+          watch_time REAL NOT NULL DEFAULT 0,
+          watched INTEGER NOT NULL DEFAULT 0,
+          watched_at DATETIME,
+          last_watched_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (video_id) REFERENCES videos(video_id) ON DELETE CASCADE
+        );
+
+        CREATE TABLE watch_history (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          video_id TEXT NOT NULL,
+          started_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          ended_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          position REAL NOT NULL DEFAULT 0,
+          watch_time REAL NOT NULL DEFAULT 0,
+          FOREIGN KEY (video_id) REFERENCES videos(video_id) ON DELETE CASCADE
+        );
+
+        CREATE INDEX idx_watch_history_video ON watch_history(video_id);
+        CREATE INDEX idx_watch_history_ended ON watch_history(ended_at);
+      `)
+    }
+  },
+  {
+    version: 10,
+    description: 'Metadata refresh and availability history',
+    up: (db) => {
+      db.exec(`
+        ALTER TABLE videos ADD COLUMN availability TEXT NOT NULL DEFAULT 'available';
+        ALTER TABLE videos ADD COLUMN metadata_checked_at DATETIME;
+
+        CREATE TABLE availability_history (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          video_id TEXT NOT NULL,
+          status TEXT NOT NULL,
+          reason TEXT,
+          checked_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (video_id) REFERENCES videos(video_id) ON DELETE CASCADE
+        );
+
+        CREATE INDEX idx_availability_history_video ON availability_history(video_id);
+        CREATE INDEX idx_videos_metadata_checked ON videos(metadata_checked_at);
+      `)
+    }
+  },
+  {
+    version: 11,
+    description: 'Extended video metadata and chapters',
+    up: (db) => {
+      db.exec(`
+        ALTER TABLE videos ADD COLUMN channel_id TEXT;
+        ALTER TABLE videos ADD COLUMN view_count INTEGER;
+        ALTER TABLE videos ADD COLUMN like_count INTEGER;
+        ALTER TABLE videos ADD COLUMN keywords TEXT;
+        ALTER TABLE videos ADD COLUMN category TEXT;
+
+        CREATE TABLE chapters (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          video_id TEXT NOT NULL,
+          start_ms INTEGER NOT NULL,
+          title TEXT NOT NULL,
+          FOREIGN KEY (video_id) REFERENCES videos(video_id) ON DELETE CASCADE
+        );
+
+        CREATE INDEX idx_chapters_video ON chapters(video_id, start_ms);
+        CREATE INDEX idx_videos_channel_id ON videos(channel_id);
+      `)
+    }
+  }
+]
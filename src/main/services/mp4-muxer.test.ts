@@ -0,0 +1,192 @@
+import { after, describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { muxFragmentedMp4 } from './mp4-muxer.js'
+
+const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'mp4-muxer-'))
+after(() => fs.rmSync(tempDir, { recursive: true, force: true }))
+
+function box(type: string, ...children: Buffer[]): Buffer {
+  const header = Buffer.alloc(8)
+  header.writeUInt32BE(8 + children.reduce((sum, child) => sum + child.length, 0), 0)
+  header.write(type, 4, 'latin1')
+  return Buffer.concat([header, ...children])
+}
+
+/** Box with a 64-bit size field */
+function largeBox(type: string, body: Buffer): Buffer {
+  const header = Buffer.alloc(16)
+  header.writeUInt32BE(1, 0)
+  header.write(type, 4, 'latin1')
+  header.writeBigUInt64BE(BigInt(16 + body.length), 8)
+  return Buffer.concat([header, body])
+}
+
+/** Full box: version and flags, then `size` bytes of fields written by `fill` (offsets relative to the box start) */
+function fullBox(type: string, version: number, flags: number, size: number, fill: (box: Buffer) => void = () => {}): Buffer {
+  const result = box(type, Buffer.alloc(size - 8))
+  result.writeUInt32BE((version << 24) | flags, 8)
+  fill(result)
+  return result
+}
+
+function moov(trackId: number, timescale: number, withMehd: boolean): Buffer {
+  return box('moov',
+    fullBox('mvhd', 0, 0, 108, b => b.writeUInt32BE(trackId + 1, 104)),
+    box('trak',
+      fullBox('tkhd', 0, 3, 92, b => b.writeUInt32BE(trackId, 20)),
+      box('mdia', fullBox('mdhd', 0, 0, 32, b => b.writeUInt32BE(timescale, 20)))
+    ),
+    box('mvex',
+      ...(withMehd ? [fullBox('mehd', 0, 0, 16, b => b.writeUInt32BE(90_000, 12))] : []),
+      fullBox('trex', 0, 0, 32, b => b.writeUInt32BE(trackId, 12))
+    )
+  )
+}
+
+function moof(sequenceNumber: number, trackId: number, decodeTime: number, baseDataOffset: boolean): Buffer {
+  return box('moof',
+    fullBox('mfhd', 0, 0, 16, b => b.writeUInt32BE(sequenceNumber, 12)),
+    box('traf',
+      fullBox('tfhd', 0, baseDataOffset ? 0x1 : 0x20000, baseDataOffset ? 24 : 16, b => {
+        b.writeUInt32BE(trackId, 12)
+        if (baseDataOffset) {
+          b.writeBigUInt64BE(12345n, 16)
+        }
+      }),
+      fullBox('tfdt', 1, 0, 20, b => b.writeBigUInt64BE(BigInt(decodeTime), 12))
+    )
+  )
+}
+
+interface ParsedBox {
+  type: string
+  offset: number
+  data: Buffer
+}
+
+function topLevelBoxes(file: Buffer): ParsedBox[] {
+  const boxes: ParsedBox[] = []
+  let offset = 0
+  while (offset < file.length) {
+    let size = file.readUInt32BE(offset)
+    if (size === 1) {
+      size = Number(file.readBigUInt64BE(offset + 8))
+    }
+    boxes.push({ type: file.toString('latin1', offset + 4, offset + 8), offset, data: file.subarray(offset, offset + size) })
+    offset += size
+  }
+  return boxes
+}
+
+function children(parent: Buffer): ParsedBox[] {
+  return topLevelBoxes(parent.subarray(8))
+}
+
+function child(parent: Buffer, ...types: string[]): Buffer {
+  let current = parent
+  for (const type of types) {
+    const found = children(current).find(candidate => candidate.type === type)
+    assert.ok(found, `missing ${type}`)
+    current = found.data
+  }
+  return current
+}
+
+function writeTrack(name: string, boxes: Buffer[]): string {
+  const filePath = path.join(tempDir, name)
+  fs.writeFileSync(filePath, Buffer.concat(boxes))
+  return filePath
+}
+
+// Video: timescale 1000, fragments at 0s and 2s; audio: timescale 48000, fragments at 0s, 1s and 3s
+function writeTracks(prefix: string) {
+  const videoPath = writeTrack(`${prefix}-video.mp4`, [
+    box('ftyp', Buffer.from('dash\0\0\0\0iso6', 'latin1')),
+    moov(7, 1000, true),
+    box('sidx', Buffer.alloc(24)),
+    moof(1, 7, 0, true), box('mdat', Buffer.from('video-0')),
+    moof(2, 7, 2000, true), box('mdat', Buffer.from('video-2000'))
+  ])
+  const audioPath = writeTrack(`${prefix}-audio.mp4`, [
+    box('ftyp', Buffer.from('dash\0\0\0\0iso6', 'latin1')),
+    moov(9, 48_000, false),
+    moof(1, 9, 0, false), box('mdat', Buffer.from('audio-0')),
+    moof(2, 9, 48_000, false), largeBox('mdat', Buffer.from('audio-48000')),
+    moof(3, 9, 144_000, false), box('mdat', Buffer.from('audio-144000'))
+  ])
+  return { videoPath, audioPath }
+}
+
+describe('muxFragmentedMp4', () => {
+  it('merges both tracks into one moov with track IDs 1 and 2', async () => {
+    const { videoPath, audioPath } = writeTracks('moov')
+    const outputPath = path.join(tempDir, 'moov-output.mp4')
+    await muxFragmentedMp4(videoPath, audioPath, outputPath)
+
+    const output = fs.readFileSync(outputPath)
+    const boxes = topLevelBoxes(output)
+    assert.deepEqual(boxes.slice(0, 2).map(b => b.type), ['ftyp', 'moov'])
+
+    const moovBox = boxes[1].data
+    assert.deepEqual(children(moovBox).map(b => b.type), ['mvhd', 'trak', 'trak', 'mvex'])
+    const mvhd = child(moovBox, 'mvhd')
+    assert.equal(mvhd.readUInt32BE(mvhd.length - 4), 3, 'next_track_ID')
+
+    const traks = children(moovBox).filter(b => b.type === 'trak').map(b => b.data)
+    assert.deepEqual(traks.map(trak => child(trak, 'tkhd').readUInt32BE(20)), [1, 2])
+    assert.deepEqual(traks.map(trak => child(trak, 'mdia', 'mdhd').readUInt32BE(20)), [1000, 48_000])
+
+    const mvex = child(moovBox, 'mvex')
+    assert.deepEqual(children(mvex).map(b => b.type), ['mehd', 'trex', 'trex'])
+    assert.deepEqual(children(mvex).filter(b => b.type === 'trex').map(b => b.data.readUInt32BE(12)), [1, 2])
+  })
+
+  it('interleaves fragments by time and rewrites their moof boxes', async () => {
+    const { videoPath, audioPath } = writeTracks('fragments')
+    const outputPath = path.join(tempDir, 'fragments-output.mp4')
+    await muxFragmentedMp4(videoPath, audioPath, outputPath)
+
+    const boxes = topLevelBoxes(fs.readFileSync(outputPath)).slice(2)
+    assert.deepEqual(boxes.map(b => b.type), ['moof', 'mdat', 'moof', 'mdat', 'moof', 'mdat', 'moof', 'mdat', 'moof', 'mdat'])
+
+    const moofs = boxes.filter(b => b.type === 'moof')
+    const mdats = boxes.filter(b => b.type === 'mdat')
+    // Stable sort: at equal times the video fragment comes first
+    assert.deepEqual(
+      mdats.map(mdat => mdat.data.subarray(mdat.data.readUInt32BE(0) === 1 ? 16 : 8).toString()),
+      ['video-0', 'audio-0', 'audio-48000', 'video-2000', 'audio-144000']
+    )
+    assert.deepEqual(moofs.map(m => child(m.data, 'mfhd').readUInt32BE(12)), [1, 2, 3, 4, 5])
+
+    const tfhds = moofs.map(m => child(m.data, 'traf', 'tfhd'))
+    assert.deepEqual(tfhds.map(tfhd => tfhd.readUInt32BE(12)), [1, 2, 2, 1, 2])
+
+    // Absolute base data offsets (video) now point at the moof in the output
+    assert.equal(tfhds[0].readBigUInt64BE(16), BigInt(moofs[0].offset))
+    assert.equal(tfhds[3].readBigUInt64BE(16), BigInt(moofs[3].offset))
+    // Default-base-is-moof fragments (audio) carry no offset to rewrite
+    assert.equal(tfhds[1].length, 16)
+  })
+
+  it('keeps 64-bit mdat headers', async () => {
+    const { videoPath, audioPath } = writeTracks('large')
+    const outputPath = path.join(tempDir, 'large-output.mp4')
+    await muxFragmentedMp4(videoPath, audioPath, outputPath)
+
+    const mdat = topLevelBoxes(fs.readFileSync(outputPath)).filter(b => b.type === 'mdat')[2].data
+    assert.equal(mdat.readUInt32BE(0), 1)
+    assert.equal(mdat.readBigUInt64BE(8), BigInt(mdat.length))
+  })
+
+  it('rejects files that are not fragmented MP4', async () => {
+    const { audioPath } = writeTracks('invalid')
+    const progressivePath = writeTrack('progressive.mp4', [moov(1, 1000, false), box('mdat', Buffer.from('data'))])
+    const noMoovPath = writeTrack('no-moov.mp4', [moof(1, 1, 0, false), box('mdat', Buffer.from('data'))])
+
+    await assert.rejects(muxFragmentedMp4(progressivePath, audioPath, path.join(tempDir, 'out-1.mp4')), /Not a fragmented MP4/)
+    await assert.rejects(muxFragmentedMp4(noMoovPath, audioPath, path.join(tempDir, 'out-2.mp4')), /missing moov/)
+  })
+})
@@ -0,0 +1,332 @@
+import fs from 'fs'
+
+/**
+ * Minimal fragmented MP4 (DASH) muxer
+ *
+ * YouTube's adaptive MP4 streams are fragmented MP4 files with a single track:
+ *   ftyp, moov (empty sample tables + mvex), sidx, then moof/mdat pairs.
+ * Combining a video-only and an audio-only stream only requires merging the
+ * two moov boxes and copying the fragments with rewritten track IDs. Sample
+ * data is copied unchanged, so this is fast and needs no external tools.
+ */
+
+const COPY_BUFFER_SIZE = 1024 * 1024
+const VIDEO_TRACK_ID = 1
+const AUDIO_TRACK_ID = 2
+
+interface BoxHeader {
+  type: string
+  offset: number
+  size: number
+  headerSize: number
+}
+
+interface Fragment {
+  moof: Buffer
+  mdatOffset: number
+  mdatSize: number
+  // Start time in seconds, used to interleave video and audio fragments
+  time: number
+}
+
+interface TrackFile {
+  handle: fs.promises.FileHandle
+  moov: Buffer
+  fragments: Fragment[]
+}
+
+/**
+ * Read the box header at the given file offset
+ */
+async function readBoxHeader(handle: fs.promises.FileHandle, offset: number): Promise<BoxHeader | null> {
+  const header = Buffer.alloc(16)
+  const { bytesRead } = await handle.read(header, 0, 16, offset)
+  if (bytesRead < 8) {
+    return null
+  }
+
+  let size = header.readUInt32BE(0)
+  const type = header.toString('latin1', 4, 8)
+  let headerSize = 8
+
+  if (size === 1) {
+    size = Number(header.readBigUInt64BE(8))
+    headerSize = 16
+  } else if (size === 0) {
+    // Box extends to end of file
+    const stats = await handle.stat()
+    size = stats.size - offset
+  }
+
+  return { type, offset, size, headerSize }
+}
+
+async function readBox(handle: fs.promises.FileHandle, box: BoxHeader): Promise<Buffer> {
+  const buffer = Buffer.alloc(box.size)
+  await handle.read(buffer, 0, box.size, box.offset)
+  return buffer
+}
+
+/**
+ * Iterate over child boxes of an in-memory box (skipping the parent header)
+ */
+function* childBoxes(buffer: Buffer, start: number, end: number): Generator<{ type: string; start: number; size: number }> {
+  let position = start
+  while (position + 8 <= end) {
+    const size = buffer.readUInt32BE(position)
+    const type = buffer.toString('latin1', position + 4, position + 8)
+    if (size < 8 || position + size > end) {
+      break
+    }
+    yield { type, start: position, size }
+    position += size
+  }
+}
+
+function findChild(buffer: Buffer, start: number, end: number, type: string) {
+  for (const child of childBoxes(buffer, start, end)) {
+    if (child.type === type) {
+      return child
+    }
+  }
+  return undefined
+}
+
+/**
+ * Get the media timescale from moov/trak/mdia/mdhd
+ */
+function getTimescale(moov: Buffer): number {
+  const trak = findChild(moov, 8, moov.length, 'trak')
+  const mdia = trak && findChild(moov, trak.start + 8, trak.start + trak.size, 'mdia')
+  const mdhd = mdia && findChild(moov, mdia.start + 8, mdia.start + mdia.size, 'mdhd')
+  if (!mdhd) {
+    throw new Error('Invalid MP4: missing mdhd')
+  }
+
+  const version = moov.readUInt8(mdhd.start + 8)
+  return moov.readUInt32BE(mdhd.start + (version === 1 ? 28 : 20))
+}
+
+/**
+ * Get baseMediaDecodeTime from moof/traf/tfdt
+ */
+function getDecodeTime(moof: Buffer): number {
+  const traf = findChild(moof, 8, moof.length, 'traf')
+  const tfdt = traf && findChild(moof, traf.start + 8, traf.start + traf.size, 'tfdt')
+  if (!tfdt) {
+    return 0
+  }
+
+  const version = moof.readUInt8(tfdt.start + 8)
+  return version === 1
+    ? Number(moof.readBigUInt64BE(tfdt.start + 12))
+    : moof.readUInt32BE(tfdt.start + 12)
+}
+
+/**
+ * Index a fragmented MP4 file: read its moov and every moof, remember mdat positions
+ */
+async function indexTrackFile(filePath: string): Promise<TrackFile> {
+  const handle = await fs.promises.open(filePath, 'r')
+  const { size: fileSize } = await handle.stat()
+
+  let moov: Buffer | null = null
+  let timescale = 1
+  let pendingMoof: Buffer | null = null
+  const fragments: Fragment[] = []
+
+  let offset = 0
+  while (offset < fileSize) {
+    const box = await readBoxHeader(handle, offset)
+    if (!box || box.size < box.headerSize) {
+      break
+    }
+
+    if (box.type === 'moov') {
+      moov = await readBox(handle, box)
+      timescale = getTimescale(moov)
+    } else if (box.type === 'moof') {
+      pendingMoof = await readBox(handle, box)
+    } else if (box.type === 'mdat' && pendingMoof) {
+      fragments.push({
+        moof: pendingMoof,
+        mdatOffset: box.offset,
+        mdatSize: box.size,
+        time: getDecodeTime(pendingMoof) / timescale
+      })
+      pendingMoof = null
+    }
+
+    offset += box.size
+  }
+
+  if (!moov) {
+    await handle.close()
+    throw new Error(`Invalid MP4: missing moov in ${filePath}`)
+  }
+  if (fragments.length === 0) {
+    await handle.close()
+    throw new Error(`Not a fragmented MP4: ${filePath}`)
+  }
+
+  return { handle, moov, fragments }
+}
+
+/**
+ * Set the track_ID of tkhd inside a trak box (in place)
+ */
+function setTrakTrackId(trak: Buffer, trackId: number) {
+  const tkhd = findChild(trak, 8, trak.length, 'tkhd')
+  if (!tkhd) {
+    throw new Error('Invalid MP4: missing tkhd')
+  }
+  const version = trak.readUInt8(tkhd.start + 8)
+  trak.writeUInt32BE(trackId, tkhd.start + (version === 1 ? 28 : 20))
+}
+
+function makeBox(type: string, children: Buffer[]): Buffer {
+  const size = 8 + children.reduce((sum, child) => sum + child.length, 0)
+  const header = Buffer.alloc(8)
+  header.writeUInt32BE(size, 0)
+  header.write(type, 4, 'latin1')
+  return Buffer.concat([header, ...children])
+}
+
+/**
+ * Build a moov containing the video and audio tracks
+ */
+function mergeMoov(videoMoov: Buffer, audioMoov: Buffer): Buffer {
+  const extract = (moov: Buffer, type: string) => {
+    const box = findChild(moov, 8, moov.length, type)
+    if (!box) {
+      throw new Error(`Invalid MP4: missing ${type}`)
+    }
+    return Buffer.from(moov.subarray(box.start, box.start + box.size))
+  }
+
+  const mvhd = extract(videoMoov, 'mvhd')
+  // next_track_ID is the last field of mvhd
+  mvhd.writeUInt32BE(AUDIO_TRACK_ID + 1, mvhd.length - 4)
+
+  const videoTrak = extract(videoMoov, 'trak')
+  const audioTrak = extract(audioMoov, 'trak')
+  setTrakTrackId(videoTrak, VIDEO_TRACK_ID)
+  setTrakTrackId(audioTrak, AUDIO_TRACK_ID)
+
+  const videoMvex = extract(videoMoov, 'mvex')
+  const audioMvex = extract(audioMoov, 'mvex')
+  const videoTrex = findChild(videoMvex, 8, videoMvex.length, 'trex')
+  const audioTrex = findChild(audioMvex, 8, audioMvex.length, 'trex')
+  if (!videoTrex || !audioTrex) {
+    throw new Error('Invalid MP4: missing trex')
+  }
+  const trex = (mvex: Buffer, box: { start: number; size: number }, trackId: number) => {
+    const copy = Buffer.from(mvex.subarray(box.start, box.start + box.size))
+    copy.writeUInt32BE(trackId, 12)
+    return copy
+  }
+
+  // Keep the fragment duration (mehd) so players know the total length up front
+  const mehd = findChild(videoMvex, 8, videoMvex.length, 'mehd')
+  const mvex = makeBox('mvex', [
+    ...(mehd ? [videoMvex.subarray(mehd.start, mehd.start + mehd.size)] : []),
+    trex(videoMvex, videoTrex, VIDEO_TRACK_ID),
+    trex(audioMvex, audioTrex, AUDIO_TRACK_ID)
+  ])
+
+  return makeBox('moov', [mvhd, videoTrak, audioTrak, mvex])
+}
+
+/**
+ * Rewrite a moof for the output file: sequence number, track ID and absolute offsets
+ */
+function rewriteMoof(moof: Buffer, sequenceNumber: number, trackId: number, outputOffset: number): Buffer {
+  const copy = Buffer.from(moof)
+
+  const mfhd = findChild(copy, 8, copy.length, 'mfhd')
+  if (mfhd) {
+    copy.writeUInt32BE(sequenceNumber, mfhd.start + 12)
+  }
+
+  for (const traf of childBoxes(copy, 8, copy.length)) {
+    if (traf.type !== 'traf') continue
+
+    const tfhd = findChild(copy, traf.start + 8, traf.start + traf.size, 'tfhd')
+    if (!tfhd) continue
+
+    const flags = copy.readUInt32BE(tfhd.start + 8) & 0xffffff
+    copy.writeUInt32BE(trackId, tfhd.start + 12)
+
+    // base-data-offset-present: offsets are absolute, point them at the new moof position
+    if (flags & 0x1) {
+      copy.writeBigUInt64BE(BigInt(outputOffset), tfhd.start + 16)
+    }
+  }
+
+  return copy
+}
+
+async function copyRange(
+  source: fs.promises.FileHandle,
+  target: fs.promises.FileHandle,
+  start: number,
+  length: number
+) {
+  const buffer = Buffer.alloc(Math.min(COPY_BUFFER_SIZE, length))
+  let copied = 0
+  while (copied < length) {
+    const { bytesRead } = await source.read(buffer, 0, Math.min(buffer.length, length - copied), start + copied)
+    if (bytesRead === 0) {
+      throw new Error('Unexpected end of file while muxing')
+    }
+    await target.write(buffer, 0, bytesRead)
+    copied += bytesRead
+  }
+}
+
+function makeFtyp(): Buffer {
+  const brands = ['isom', 'iso6', 'mp41']
+  const body = Buffer.alloc(8 + brands.length * 4)
+  body.write('isom', 0, 'latin1')
+  body.writeUInt32BE(512, 4)
+  brands.forEach((brand, i) => body.write(brand, 8 + i * 4, 'latin1'))
+  return makeBox('ftyp', [body])
+}
+
+/**
+ * Mux a video-only and an audio-only fragmented MP4 into one MP4 file
+ */
+export async function muxFragmentedMp4(videoPath: string, audioPath: string, outputPath: string) {
+  const video = await indexTrackFile(videoPath)
+  let audio: TrackFile | null = null
+  let output: fs.promises.FileHandle | null = null
+
+  try {
+    audio = await indexTrackFile(audioPath)
+    output = await fs.promises.open(outputPath, 'w')
+
+    const header = Buffer.concat([makeFtyp(), mergeMoov(video.moov, audio.moov)])
+    await output.write(header)
+    let outputOffset = header.length
+
+    // Interleave fragments by start time so players don't have to seek back and forth
+    const fragments = [
+      ...video.fragments.map(fragment => ({ fragment, source: video, trackId: VIDEO_TRACK_ID })),
+      ...audio.fragments.map(fragment => ({ fragment, source: audio!, trackId: AUDIO_TRACK_ID }))
+    ].sort((a, b) => a.fragment.time - b.fragment.time)
+
+    let sequenceNumber = 1
+    for (const { fragment, source, trackId } of fragments) {
+      const moof = rewriteMoof(fragment.moof, sequenceNumber++, trackId, outputOffset)
+      await output.write(moof)
+      await copyRange(source.handle, output, fragment.mdatOffset, fragment.mdatSize)
+      outputOffset += moof.length + fragment.mdatSize
+    }
+
+    console.log('Muxed', fragments.length, 'fragments into', outputPath)
+  } finally {
+    await video.handle.close()
+    await audio?.handle.close()
+    await output?.close()
+  }
+}
@@ -0,0 +1,117 @@
+import { YTNodes } from 'youtubei.js'
+import { youtubeService } from './youtube.service.js'
+import { databaseService, type Playlist } from './database.service.js'
+import { queueService } from './queue.service.js'
+import { thumbnailService } from './thumbnail.service.js'
+
+export interface PlaylistImportResult {
+  playlist: Playlist
+  /** Number of playable videos found in the playlist */
+  total: number
+  /** Videos newly added to the library */
+  added: number
+  /** Videos that were already in the library */
+  skipped: number
+  /** Videos added to the download queue */
+  queued: number
+}
+
+/**
+ * Extract a playlist ID from a playlist/watch URL, or accept a bare playlist ID
+ */
+function extractPlaylistId(input: string): string | null {
+  const listMatch = input.match(/[?&]list=([\w-]+)/)
+  if (listMatch) {
+    return listMatch[1]
+  }
+  return /^(PL|UU|LL|FL|OL|RD)[\w-]+$/.test(input.trim()) ? input.trim() : null
+}
+
+/**
+ * Imports YouTube playlists into the library
+ */
+class PlaylistService {
+  /**
+   * Resolve a playlist (following continuations), add its videos to the library
+   * and optionally enqueue them for download
+   */
+  async importPlaylist(url: string, options: { download?: boolean } = {}): Promise<PlaylistImportResult> {
+    const playlistId = extractPlaylistId(url)
+    if (!playlistId) {
+      throw new Error('Invalid YouTube playlist URL')
+    }
+
+    const youtube = await youtubeService.getClient()
+    console.log('Fetching playlist:', playlistId)
+
+    let page = await youtube.getPlaylist(playlistId)
+    const info = page.info
+
+    const entries = [...page.items.filterType(YTNodes.PlaylistVideo)]
+    while (page.has_continuation) {
+      page = await page.getContinuation()
+      entries.push(...page.items.filterType(YTNodes.PlaylistVideo))
+    }
+
+    const playlist = databaseService.upsertPlaylist({
+      playlistId,
+      url: `https://www.youtube.com/playlist?list=${playlistId}`,
+      title: info.title || 'Untitled playlist',
+      description: info.description,
+      channelName: info.author?.name,
+      thumbnailUrl: info.thumbnails?.[0]?.url
+    })
+
+    const videoIds: string[] = []
+    let added = 0
+    let skipped = 0
+    let queued = 0
+
+    for (const entry of entries) {
+      // Deleted and private videos stay in playlists but can't be played
+      if (!entry.is_playable || videoIds.includes(entry.id)) {
+        continue
+      }
+      videoIds.push(entry.id)
+
+      const videoUrl = `https://www.youtube.com/watch?v=${entry.id}`
+      const existing = databaseService.getVideoByVideoId(entry.id)
+      if (existing) {
+        skipped++
+      } else {
+        databaseService.addVideo({
+          videoId: entry.id,
+          url: videoUrl,
+          title: entry.title.toString() || 'Untitled',
+          thumbnailUrl: entry.thumbnails?.[0]?.url || '',
+          duration: entry.duration?.seconds || 0,
+          channelName: entry.author?.name || 'Unknown'
+        })
+        added++
+      }
+
+      if (options.download && existing?.downloadStatus !== 'completed') {
+        try {
+          queueService.enqueue(entry.id, videoUrl)
+          queued++
+        } catch (error) {
+          console.error('Failed to enqueue playlist video:', entry.id, error)
+        }
+      }
+    }
+
+    databaseService.setPlaylistVideos(playlistId, videoIds)
+    thumbnailService.enqueue(videoIds)
+    console.log(`Playlist imported: ${playlist.title} (${added} added, ${skipped} skipped, ${queued} queued)`)
+
+    return {
+      playlist: databaseService.getPlaylist(playlistId)!,
+      total: videoIds.length,
+      added,
+      skipped,
+      queued
+    }
+  }
+}
+
+export const playlistService = new PlaylistService()
@@ -0,0 +1,218 @@
+import { EventEmitter } from 'events'
+import { databaseService, type DownloadJob } from './database.service.js'
+import { downloadService } from './download.service.js'
+import { settingsService } from './settings.service.js'
+import { DownloadError } from './download-error.js'
+import type { DownloadOptions } from './format.service.js'
+import { assertLibraryNotMoving } from './library-move.js'
+
+export interface QueueStatus {
+  paused: boolean
+  maxConcurrency: number
+  jobs: DownloadJob[]
+}
+
+/**
+ * Persistent download queue
+ *
+ * Jobs are stored in the download_jobs table so they survive restarts.
+ * At most `maxConcurrentDownloads` jobs run at once; the rest wait in
+ * priority order (highest first), then FIFO.
+ *
+ * Events:
+ * - 'progress' { videoId, progress }
+ * - 'complete' { videoId, filePath }
+ * - 'failed'   { videoId, error, code }
+ * - 'updated'  QueueStatus
+ */
+class QueueService extends EventEmitter {
+  // Running jobs, each with a promise that settles once the job has fully stopped
+  private running: Map<string, Promise<void>> = new Map()
+  // Jobs stopped on purpose (cancel/pause) so their rejection isn't reported as a failure
+  private stopping: Set<string> = new Set()
+  // Jobs only start after initialize(); until then enqueued jobs just wait in the table
+  private started = false
+
+  /**
+   * Restore queue state after startup and start processing it
+   * Downloads interrupted by a crash or quit are reset and put back in the queue
+   */
+  initialize() {
+    this.started = true
+    databaseService.resetActiveDownloadJobs()
+
+    const interrupted = databaseService.resetInterruptedDownloads()
+    for (const video of interrupted) {
+      databaseService.enqueueDownloadJob(video.videoId, video.url)
+    }
+    if (interrupted.length > 0) {
+      console.log('Re-enqueued interrupted downloads:', interrupted.length)
+    }
+
+    console.log('Download queue initialized')
+    this.processQueue()
+  }
+
+  /**
+   * Add a video to the download queue
+   * Without options, the default download options from settings are used when the job starts
+   */
+  enqueue(videoId: string, url: string, priority: number = 0, options?: DownloadOptions): DownloadJob {
+    assertLibraryNotMoving('queue a download')
+    const video = databaseService.getVideoByVideoId(videoId)
+    if (!video) {
+      throw new Error('Video not found')
+    }
+    if (video.downloadStatus === 'completed') {
+      throw new Error('Video is already downloaded')
+    }
+
+    const job = databaseService.enqueueDownloadJob(videoId, url, priority, options)
+    if (job.status === 'queued') {
+      databaseService.updateDownloadStatus(videoId, 'queued', downloadService.getPartialProgress(videoId))
+    }
+    console.log('Download enqueued:', videoId, 'priority:', job.priority)
+
+    this.notifyUpdated()
+    this.processQueue()
+    return job
+  }
+
+  /**
+   * Remove a video from the queue
+   * A running download is paused (its partial data is kept for resuming)
+   */
+  remove(videoId: string): boolean {
+    const job = databaseService.getDownloadJob(videoId)
+    if (!job) {
+      return false
+    }
+
+    if (this.running.has(videoId)) {
+      this.stopping.add(videoId)
+    }
+    databaseService.deleteDownloadJob(videoId)
+    downloadService.pauseDownload(videoId)
+    console.log('Download removed from queue:', videoId)
+
+    this.notifyUpdated()
+    return true
+  }
+
+  setPriority(videoId: string, priority: number) {
+    databaseService.updateDownloadJobPriority(videoId, priority)
+    this.notifyUpdated()
+  }
+
+  /**
+   * Pause the whole queue
+   * Running downloads are paused and returned to the queue
+   */
+  pause() {
+    settingsService.update({ queuePaused: true })
+
+    for (const videoId of this.running.keys()) {
+      this.stopping.add(videoId)
+      downloadService.pauseDownload(videoId)
+      databaseService.updateDownloadJobStatus(videoId, 'queued')
+      databaseService.updateDownloadStatus(videoId, 'queued', downloadService.getPartialProgress(videoId))
+    }
+    console.log('Download queue paused')
+
+    this.notifyUpdated()
+  }
+
+  resume() {
+    assertLibraryNotMoving('resume downloads')
+    settingsService.update({ queuePaused: false })
+    console.log('Download queue resumed')
+
+    this.notifyUpdated()
+    this.processQueue()
+  }
+
+  setMaxConcurrency(maxConcurrency: number) {
+    if (!Number.isInteger(maxConcurrency) || maxConcurrency < 1) {
+      throw new Error('Max concurrency must be a positive integer')
+    }
+    settingsService.update({ maxConcurrentDownloads: maxConcurrency })
+
+    this.notifyUpdated()
+    this.processQueue()
+  }
+
+  /**
+   * Resolves once no job is running, e.g. after pause()
+   * A stopped download only settles after its partial files have been closed.
+   */
+  async whenIdle() {
+    while (this.running.size > 0) {
+      await Promise.all(this.running.values())
+    }
+  }
+
+  getStatus(): QueueStatus {
+    return {
+      paused: settingsService.get('queuePaused'),
+      maxConcurrency: settingsService.get('maxConcurrentDownloads'),
+      jobs: databaseService.getDownloadJobs()
+    }
+  }
+
+  /**
+   * Start queued jobs until the concurrency limit is reached
+   */
+  private processQueue() {
+    if (!this.started || settingsService.get('queuePaused')) {
+      return
+    }
+
+    while (this.running.size < settingsService.get('maxConcurrentDownloads')) {
+      const job = databaseService.getNextQueuedJob()
+      // A stopped job may still be winding down; wait for it to settle
+      if (!job || this.running.has(job.videoId)) {
+        break
+      }
+      this.running.set(job.videoId, this.runJob(job))
+    }
+  }
+
+  private async runJob(job: DownloadJob) {
+    const { videoId, url } = job
+    const options = job.options || settingsService.get('defaultDownloadOptions')
+
+    databaseService.updateDownloadJobStatus(videoId, 'active')
+    this.notifyUpdated()
+
+    try {
+      console.log('Queue starting download:', videoId)
+
+      const result = await downloadService.downloadVideo(videoId, url, options, (progress) => {
+        this.emit('progress', { videoId, progress })
+      })
+
+      databaseService.deleteDownloadJob(videoId)
+      this.emit('complete', { videoId, filePath: result.filePath })
+    } catch (error) {
+      if (!this.stopping.has(videoId)) {
+        databaseService.deleteDownloadJob(videoId)
+        this.emit('failed', {
+          videoId,
+          error: error instanceof Error ? error.message : 'Failed to download video',
+          code: error instanceof DownloadError ? error.code : 'UNKNOWN'
+        })
+      }
+    } finally {
+      this.running.delete(videoId)
+      this.stopping.delete(videoId)
+      this.notifyUpdated()
+      this.processQueue()
+    }
+  }
+
+  private notifyUpdated() {
+    this.emit('updated', this.getStatus())
+  }
+}
+
+export const queueService = new QueueService()
@@ -0,0 +1,65 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { parseSearchQuery, parseSnippet, SNIPPET_END, SNIPPET_START } from './search-query.js'
+
+describe('parseSearchQuery', () => {
+  it('prefix-matches each word', () => {
+    assert.equal(parseSearchQuery('rust tut').match, '"rust"* "tut"*')
+  })
+
+  it('quotes FTS5 operators in user input as plain terms', () => {
+    assert.equal(parseSearchQuery('cats AND dogs').match, '"cats"* "AND"* "dogs"*')
+    assert.equal(parseSearchQuery('cats OR NOT dogs').match, '"cats"* "OR"* "NOT"* "dogs"*')
+    assert.equal(parseSearchQuery('NEAR(cats dogs, 2)').match, '"NEAR"* "cats"* "dogs"* "2"*')
+  })
+
+  it('splits FTS5 syntax characters out of words', () => {
+    assert.equal(parseSearchQuery('c++ (draft) ^start -minus a*b {col}').match,
+      '"c"* "draft"* "start"* "minus"* "a"* "b"* "col"*')
+    assert.equal(parseSearchQuery("rock'n'roll").match, '"rock"* "n"* "roll"*')
+  })
+
+  it('keeps phrases together and doubles quotes inside them', () => {
+    assert.equal(parseSearchQuery('"hello AND world"').match, '"hello AND world"')
+    assert.equal(parseSearchQuery('"unterminated OR phrase').match, '"unterminated OR phrase"')
+    assert.equal(parseSearchQuery('title:say"hi"').match, 'title : "say""hi"""*')
+  })
+
+  it('searches unknown fields as plain text, so no column filter can be injected', () => {
+    assert.equal(parseSearchQuery('description:secret').match, '"description"* "secret"*')
+    assert.equal(parseSearchQuery('rowid:1').match, '"rowid"* "1"*')
+  })
+
+  it('limits title: terms to the title and skips transcripts', () => {
+    const parsed = parseSearchQuery('title:OR* intro')
+    assert.equal(parsed.match, 'title : "OR"* "intro"*')
+    assert.equal(parsed.transcriptMatch, null)
+    assert.equal(parseSearchQuery('intro').transcriptMatch, '"intro"*')
+  })
+
+  it('turns channel: and duration: into filters', () => {
+    const parsed = parseSearchQuery('channel:"Some Channel" duration:>10m duration:<=1h')
+    assert.equal(parsed.match, null)
+    assert.deepEqual(parsed.filters, { channels: ['Some Channel'], minDuration: 601, maxDuration: 3600 })
+  })
+
+  it('searches an invalid duration as text', () => {
+    assert.equal(parseSearchQuery('duration:long').match, '"long"*')
+  })
+
+  it('returns no expression for empty or punctuation-only input', () => {
+    assert.equal(parseSearchQuery('').match, null)
+    assert.equal(parseSearchQuery('  "" * ( ) ').match, null)
+  })
+})
+
+describe('parseSnippet', () => {
+  it('splits highlighted and plain segments', () => {
+    assert.deepEqual(parseSnippet(`an ${SNIPPET_START}intro${SNIPPET_END} to ${SNIPPET_START}rust${SNIPPET_END}`), [
+      { text: 'an ', highlighted: false },
+      { text: 'intro', highlighted: true },
+      { text: ' to ', highlighted: false },
+      { text: 'rust', highlighted: true }
+    ])
+  })
+})
@@ -0,0 +1,125 @@
+/**
+ * Library search query parsing
+ *
+ * Supported syntax:
+ *   word              prefix match on title, description, channel and transcripts ("tut" finds "tutorial")
+ *   "exact phrase"    phrase match
+ *   title:word        match in the title only (also title:"a phrase")
+ *   channel:name      channel name contains "name" (also channel:"two words")
+ *   duration:>10m     duration filter; operators > >= < <= =, units s/m/h (default seconds)
+ */
+
+export interface SearchFilters {
+  channels: string[]
+  minDuration?: number
+  maxDuration?: number
+}
+
+export interface ParsedSearchQuery {
+  /** FTS5 MATCH expression, or null if the query only has filters */
+  match: string | null
+  /** MATCH expression for transcripts; null when the query targets the title */
+  transcriptMatch: string | null
+  filters: SearchFilters
+}
+
+export interface SnippetSegment {
+  text: string
+  highlighted: boolean
+}
+
+// Markers passed to snippet(); control characters never appear in titles/descriptions
+export const SNIPPET_START = '\u0002'
+export const SNIPPET_END = '\u0003'
+
+const TOKEN_PATTERN = /(?:(\w+):)?(?:"([^"]*)"?|(\S+))/g
+const DURATION_PATTERN = /^(>=|<=|>|<|=)?(\d+(?:\.\d+)?)(s|m|h)?$/i
+const DURATION_UNITS: Record<string, number> = { s: 1, m: 60, h: 3600 }
+
+/**
+ * Quote a term for FTS5 so user input can never produce a syntax error
+ */
+function quote(term: string): string {
+  return `"${term.replace(/"/g, '""')}"`
+}
+
+function parseDurationFilter(value: string, filters: SearchFilters): boolean {
+  const match = value.match(DURATION_PATTERN)
+  if (!match) {
+    return false
+  }
+
+  const operator = match[1] || '='
+  const seconds = Math.round(parseFloat(match[2]) * DURATION_UNITS[(match[3] || 's').toLowerCase()])
+
+  if (operator.startsWith('>')) {
+    filters.minDuration = operator === '>' ? seconds + 1 : seconds
+  } else if (operator.startsWith('<')) {
+    filters.maxDuration = operator === '<' ? seconds - 1 : seconds
+  } else {
+    filters.minDuration = seconds
+    filters.maxDuration = seconds
+  }
+  return true
+}
+
+/**
+ * Parse a user search query into an FTS5 expression and SQL filters
+ */
+export function parseSearchQuery(query: string): ParsedSearchQuery {
+  const terms: string[] = []
+  const filters: SearchFilters = { channels: [] }
+  let hasTitleTerms = false
+
+  for (const [token, field, phrase, word] of query.matchAll(TOKEN_PATTERN)) {
+    const value = phrase ?? word
+    const key = field?.toLowerCase()
+
+    if (key === 'channel' && value) {
+      filters.channels.push(value)
+      continue
+    }
+    if (key === 'duration' && parseDurationFilter(value, filters)) {
+      continue
+    }
+    if (key === 'title' && value) {
+      hasTitleTerms = true
+      terms.push(phrase !== undefined ? `title : ${quote(value)}` : `title : ${quote(value.replace(/\*$/, ''))}*`)
+      continue
+    }
+
+    // Unknown fields are searched as plain text
+    const text = key && !['channel', 'duration', 'title'].includes(key) ? token.replace(/"/g, '') : value
+    if (!text) {
+      continue
+    }
+    if (phrase !== undefined && !key) {
+      terms.push(quote(text))
+    } else {
+      // Split on punctuation the tokenizer ignores, so "rock'n'roll" still matches
+      for (const part of text.split(/[^\p{L}\p{N}_]+/u).filter(Boolean)) {
+        terms.push(`${quote(part)}*`)
+      }
+    }
+  }
+
+  const match = terms.length > 0 ? terms.join(' ') : null
+  return { match, transcriptMatch: hasTitleTerms ? null : match, filters }
+}
+
+/**
+ * Split a snippet() result into plain and highlighted segments
+ */
+export function parseSnippet(snippet: string): SnippetSegment[] {
+  const segments: SnippetSegment[] = []
+  for (const part of snippet.split(SNIPPET_START)) {
+    const [highlighted, rest] = part.includes(SNIPPET_END) ? part.split(SNIPPET_END) : [null, part]
+    if (highlighted) {
+      segments.push({ text: highlighted, highlighted: true })
+    }
+    if (rest) {
+      segments.push({ text: rest, highlighted: false })
+    }
+  }
+  return segments
+}
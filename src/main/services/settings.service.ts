@@ -0,0 +1,100 @@
+import { app } from 'electron'
+import path from 'path'
+import fs from 'fs'
+import { DEFAULT_DOWNLOAD_OPTIONS, type DownloadOptions } from './format.service.js'
+
+export interface AppSettings {
+  /** Maximum number of downloads running at the same time */
+  maxConcurrentDownloads: number
+  /** Whether the download queue is paused (persisted across restarts) */
+  queuePaused: boolean
+  /** Attempts per download before transient errors are reported as failures */
+  maxDownloadAttempts: number
+  /** Quality/format used when a download doesn't specify its own options */
+  defaultDownloadOptions: DownloadOptions
+  /** How often subscribed channels are checked for new uploads */
+  channelCheckIntervalMinutes: number
+  /** Percentage of a video that has to be played before it counts as watched */
+  watchedThresholdPercent: number
+  /** How often each library video's metadata and availability is re-checked */
+  metadataRefreshIntervalHours: number
+  /** Folder holding downloaded files; empty for the default under userData */
+  libraryPath: string
+  /** Serve the local HTTP API (used by the bookmarklet) on 127.0.0.1 */
+  apiServerEnabled: boolean
+  apiServerPort: number
+  /** Bearer token HTTP API requests must carry; generated the first time the API is enabled */
+  apiToken: string
+}
+
+const DEFAULT_SETTINGS: AppSettings = {
+  maxConcurrentDownloads: 2,
+  queuePaused: false,
+  maxDownloadAttempts: 5,
+  defaultDownloadOptions: DEFAULT_DOWNLOAD_OPTIONS,
+  channelCheckIntervalMinutes: 60,
+  watchedThresholdPercent: 90,
+  metadataRefreshIntervalHours: 24,
+  libraryPath: '',
+  apiServerEnabled: false,
+  apiServerPort: 27480,
+  apiToken: ''
+}
+
+/**
+ * Application settings persisted as JSON in the userData directory
+ */
+class SettingsService {
+  private settingsPath: string
+  private settings: AppSettings
+
+  constructor() {
+    const userDataPath = app.getPath('userData')
+    this.settingsPath = path.join(userDataPath, 'settings.json')
+    this.settings = this.load()
+    console.log('Settings path:', this.settingsPath)
+  }
+
+  /**
+   * Read settings from disk, falling back to defaults for missing or invalid values
+   */
+  private load(): AppSettings {
+    try {
+      if (fs.existsSync(this.settingsPath)) {
+        const stored = JSON.parse(fs.readFileSync(this.settingsPath, 'utf-8'))
+        const defaultDownloadOptions: DownloadOptions = { ...DEFAULT_DOWNLOAD_OPTIONS, ...stored.defaultDownloadOptions }
+        // VP9 used to be offered, but no VP9 stream could ever be downloaded
+        if ((defaultDownloadOptions.codec as string) === 'vp9') {
+          defaultDownloadOptions.codec = 'any'
+        }
+        return { ...DEFAULT_SETTINGS, ...stored, defaultDownloadOptions }
+      }
+    } catch (error) {
+      console.error('Failed to read settings, using defaults:', error)
+    }
+    return { ...DEFAULT_SETTINGS }
+  }
+
+  private save() {
+    fs.writeFileSync(this.settingsPath, JSON.stringify(this.settings, null, 2))
+  }
+
+  getAll(): AppSettings {
+    return { ...this.settings }
+  }
+
+  get<K extends keyof AppSettings>(key: K): AppSettings[K] {
+    return this.settings[key]
+  }
+
+  /**
+   * Merge partial settings and persist them
+   */
+  update(partial: Partial<AppSettings>): AppSettings {
+    this.settings = { ...this.settings, ...partial }
+    this.save()
+    return this.getAll()
+  }
+}
+
+export const settingsService = new SettingsService()
@@ -0,0 +1,249 @@
+import path from 'path'
+import fs from 'fs'
+import { EventEmitter } from 'events'
+import { databaseService, type ChannelStorage } from './database.service.js'
+import { downloadService } from './download.service.js'
+import { queueService } from './queue.service.js'
+import { settingsService } from './settings.service.js'
+import { isLibraryMoving, setLibraryMoving } from './library-move.js'
+
+// Downloads shown in the "largest files" list
+const LARGEST_FILES_LIMIT = 20
+// How long a move waits for paused downloads to stop writing
+const DOWNLOAD_STOP_TIMEOUT_MS = 30 * 1000
+
+export interface LargestFile {
+  videoId: string
+  title: string
+  channelName: string
+  bytes: number
+}
+
+export interface StorageStats {
+  libraryPath: string
+  isDefaultLocation: boolean
+  /** False when the library folder is missing, e.g. an unplugged drive */
+  available: boolean
+  /** Everything in the library folder, including subtitles and partial downloads */
+  totalBytes: number
+  fileCount: number
+  freeBytes?: number
+  diskBytes?: number
+  byChannel: ChannelStorage[]
+  largestFiles: LargestFile[]
+}
+
+export interface MoveProgress {
+  copiedBytes: number
+  totalBytes: number
+  copiedFiles: number
+  totalFiles: number
+}
+
+export interface MoveResult {
+  from: string
+  to: string
+  files: number
+  bytes: number
+  /** File paths rewritten in the database */
+  updatedPaths: number
+}
+
+interface LibraryFile {
+  relativePath: string
+  size: number
+}
+
+/**
+ * Files below `dir`, relative to it
+ */
+async function listFiles(dir: string, base = dir): Promise<LibraryFile[]> {
+  const files: LibraryFile[] = []
+  for (const entry of await fs.promises.readdir(dir, { withFileTypes: true })) {
+    const fullPath = path.join(dir, entry.name)
+    if (entry.isDirectory()) {
+      files.push(...await listFiles(fullPath, base))
+    } else if (entry.isFile()) {
+      const { size } = await fs.promises.stat(fullPath)
+      files.push({ relativePath: path.relative(base, fullPath), size })
+    }
+  }
+  return files
+}
+
+function isInside(child: string, parent: string): boolean {
+  const relative = path.relative(parent, child)
+  return relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative))
+}
+
+/**
+ * Library folder location and disk usage
+ *
+ * Moving the library transfers every file to the new folder first (renamed on
+ * the same drive, copied across drives), then rewrites the stored paths and the
+ * setting, and only then deletes the copied originals, so a failed move leaves
+ * the library usable where it was.
+ *
+ * Events:
+ * - 'moveProgress' MoveProgress, while files are copied
+ */
+class StorageService extends EventEmitter {
+  async getStats(): Promise<StorageStats> {
+    const libraryPath = downloadService.getDownloadsPath()
+    const available = fs.existsSync(libraryPath)
+    const files = available ? await listFiles(libraryPath) : []
+
+    let freeBytes: number | undefined
+    let diskBytes: number | undefined
+    if (available) {
+      const { bavail, blocks, bsize } = await fs.promises.statfs(libraryPath)
+      freeBytes = bavail * bsize
+      diskBytes = blocks * bsize
+    }
+
+    return {
+      libraryPath,
+      isDefaultLocation: downloadService.isDefaultDownloadsPath(),
+      available,
+      totalBytes: files.reduce((sum, file) => sum + file.size, 0),
+      fileCount: files.length,
+      freeBytes,
+      diskBytes,
+      byChannel: databaseService.getStorageByChannel(),
+      largestFiles: databaseService.getLargestDownloads(LARGEST_FILES_LIMIT).map(video => ({
+        videoId: video.videoId,
+        title: video.title,
+        channelName: video.channelName,
+        bytes: video.fileSize || 0
+      }))
+    }
+  }
+
+  /**
+   * Move the library to `targetDir` (which must be empty or not exist yet)
+   * The download queue is paused for the duration of the move.
+   */
+  async moveLibrary(targetDir: string): Promise<MoveResult> {
+    if (isLibraryMoving()) {
+      throw new Error('The library is already being moved')
+    }
+
+    const sourceDir = path.resolve(downloadService.getDownloadsPath())
+    const target = path.resolve(targetDir)
+    if (isInside(target, sourceDir) || isInside(sourceDir, target)) {
+      throw new Error('The new library folder must not be inside the current one, or contain it')
+    }
+    if (fs.existsSync(target) && (await fs.promises.readdir(target)).length > 0) {
+      throw new Error('The new library folder must be empty')
+    }
+
+    setLibraryMoving(true)
+    const wasPaused = settingsService.get('queuePaused')
+    if (!wasPaused) {
+      queueService.pause()
+    }
+
+    try {
+      await this.waitForDownloadsToStop()
+
+      const files = fs.existsSync(sourceDir) ? await listFiles(sourceDir) : []
+      const totalBytes = files.reduce((sum, file) => sum + file.size, 0)
+
+      await fs.promises.mkdir(target, { recursive: true })
+      const sameDrive = fs.existsSync(sourceDir) &&
+        (await fs.promises.stat(sourceDir)).dev === (await fs.promises.stat(target)).dev
+
+      if (sameDrive) {
+        await this.transferFiles(files, sourceDir, target, 'rename')
+      } else {
+        const { bavail, bsize } = await fs.promises.statfs(target)
+        if (bavail * bsize < totalBytes) {
+          throw new Error(`Not enough space in ${target}: ${Math.ceil(totalBytes / 1024 / 1024)} MB needed`)
+        }
+        await this.transferFiles(files, sourceDir, target, 'copy')
+      }
+
+      // Every file is in place: switch over, then remove the originals
+      const updatedPaths = databaseService.rewriteFilePaths(sourceDir, target)
+      settingsService.update({ libraryPath: target })
+      downloadService.setDownloadsPath(target)
+
+      if (!sameDrive) {
+        for (const file of files) {
+          await fs.promises.rm(path.join(sourceDir, file.relativePath), { force: true })
+        }
+      }
+
+      console.log(`Library moved: ${sourceDir} -> ${target} (${files.length} files, ${totalBytes} bytes)`)
+      return { from: sourceDir, to: target, files: files.length, bytes: totalBytes, updatedPaths }
+    } finally {
+      // Cleared first: resuming the queue is refused while the library is moving
+      setLibraryMoving(false)
+      if (!wasPaused) {
+        queueService.resume()
+      }
+    }
+  }
+
+  /**
+   * Rename (same drive) or copy files into the target folder, verifying copied sizes
+   * On failure the files already transferred are renamed back or deleted.
+   */
+  private async transferFiles(files: LibraryFile[], sourceDir: string, targetDir: string, mode: 'rename' | 'copy') {
+    const progress: MoveProgress = {
+      copiedBytes: 0,
+      totalBytes: files.reduce((sum, file) => sum + file.size, 0),
+      copiedFiles: 0,
+      totalFiles: files.length
+    }
+
+    const transferred: LibraryFile[] = []
+
+    try {
+      for (const file of files) {
+        const source = path.join(sourceDir, file.relativePath)
+        const destination = path.join(targetDir, file.relativePath)
+        await fs.promises.mkdir(path.dirname(destination), { recursive: true })
+
+        if (mode === 'rename') {
+          await fs.promises.rename(source, destination)
+        } else {
+          await fs.promises.copyFile(source, destination)
+          const { size } = await fs.promises.stat(destination)
+          if (size !== file.size) {
+            throw new Error(`Copy of ${file.relativePath} is incomplete`)
+          }
+        }
+        transferred.push(file)
+
+        progress.copiedBytes += file.size
+        progress.copiedFiles++
+        this.emit('moveProgress', { ...progress })
+      }
+    } catch (error) {
+      for (const file of transferred) {
+        const destination = path.join(targetDir, file.relativePath)
+        if (mode === 'rename') {
+          await fs.promises.rename(destination, path.join(sourceDir, file.relativePath)).catch(() => {})
+        } else {
+          await fs.promises.rm(destination, { force: true })
+        }
+      }
+      throw error
+    }
+  }
+
+  private async waitForDownloadsToStop() {
+    let timer: NodeJS.Timeout | undefined
+    const timeout = new Promise<never>((_resolve, reject) => {
+      timer = setTimeout(() => reject(new Error('Downloads did not stop in time; try again')), DOWNLOAD_STOP_TIMEOUT_MS)
+    })
+    try {
+      await Promise.race([queueService.whenIdle(), timeout])
+    } finally {
+      clearTimeout(timer)
+    }
+  }
+}
+
+export const storageService = new StorageService()
@@ -0,0 +1,122 @@
+import path from 'path'
+import fs from 'fs'
+import type { YTNodes } from 'youtubei.js'
+import { youtubeService } from './youtube.service.js'
+import { databaseService, type Subtitle, type SubtitleKind } from './database.service.js'
+import { parseJson3Captions, parseWebVtt, formatWebVtt } from './captions.js'
+import type { SubtitleSelection } from './format.service.js'
+
+export type CaptionTrack = NonNullable<YTNodes.PlayerCaptionsTracklist['caption_tracks']>[number]
+
+export interface CaptionTrackInfo {
+  languageCode: string
+  name: string
+  kind: SubtitleKind
+}
+
+function getKind(track: CaptionTrack): SubtitleKind {
+  return track.kind === 'asr' ? 'auto' : 'manual'
+}
+
+function matchesLanguage(track: CaptionTrack, languageCode: string): boolean {
+  return track.language_code === languageCode || track.language_code.split('-')[0] === languageCode
+}
+
+/**
+ * Caption track listing and download (stored as WebVTT next to the video file)
+ */
+class SubtitleService {
+  /**
+   * List the caption tracks available for a video
+   */
+  async listCaptionTracks(videoId: string): Promise<CaptionTrackInfo[]> {
+    const youtube = await youtubeService.getClient()
+    const info = await youtube.getInfo(videoId)
+
+    return (info.captions?.caption_tracks || []).map(track => ({
+      languageCode: track.language_code,
+      name: track.name.toString(),
+      kind: getKind(track)
+    }))
+  }
+
+  /**
+   * Download the selected caption tracks into the given directory
+   * Selections without a matching track are skipped.
+   */
+  async downloadSubtitles(
+    videoId: string,
+    tracks: CaptionTrack[],
+    selections: SubtitleSelection[],
+    directory: string
+  ): Promise<Subtitle[]> {
+    const youtube = await youtubeService.getClient()
+
+    for (const selection of selections) {
+      const kind: SubtitleKind = selection.auto ? 'auto' : 'manual'
+      const track = tracks.find(t => getKind(t) === kind && matchesLanguage(t, selection.languageCode))
+      if (!track) {
+        console.log('No caption track for', videoId, selection.languageCode, kind)
+        continue
+      }
+
+      const url = new URL(track.base_url)
+      url.searchParams.set('fmt', 'json3')
+      const response = await youtube.session.http.fetch_function(url.toString())
+      if (!response.ok) {
+        throw new Error(`Failed to fetch captions (${response.status})`)
+      }
+
+      const cues = parseJson3Captions(await response.json())
+      const suffix = kind === 'auto' ? '.auto' : ''
+      const filePath = path.join(directory, `${videoId}.${track.language_code}${suffix}.vtt`)
+      await fs.promises.writeFile(filePath, formatWebVtt(cues), 'utf-8')
+
+      const subtitle = databaseService.saveSubtitle({
+        videoId,
+        languageCode: track.language_code,
+        name: track.name.toString(),
+        kind,
+        filePath
+      })
+      databaseService.saveTranscriptSegments(subtitle, cues)
+      console.log('Subtitles saved:', filePath, `(${cues.length} cues)`)
+    }
+
+    return databaseService.getSubtitles(videoId)
+  }
+
+  /**
+   * Index subtitle files saved before transcript search existed
+   */
+  async indexMissingTranscripts() {
+    const subtitles = databaseService.getUnindexedSubtitles()
+
+    for (const subtitle of subtitles) {
+      try {
+        const vtt = await fs.promises.readFile(subtitle.filePath, 'utf-8')
+        databaseService.saveTranscriptSegments(subtitle, parseWebVtt(vtt))
+      } catch (error) {
+        console.error('Failed to index transcript:', subtitle.filePath, error)
+      }
+    }
+
+    if (subtitles.length > 0) {
+      console.log('Indexed transcripts:', subtitles.length)
+    }
+  }
+
+  /**
+   * Delete a video's subtitle files and records
+   */
+  deleteSubtitles(videoId: string) {
+    for (const subtitle of databaseService.getSubtitles(videoId)) {
+      if (fs.existsSync(subtitle.filePath)) {
+        fs.unlinkSync(subtitle.filePath)
+      }
+    }
+    databaseService.deleteSubtitles(videoId)
+  }
+}
+
+export const subtitleService = new SubtitleService()
@@ -0,0 +1,136 @@
+import { after, describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import zlib from 'zlib'
+import { isArchive, readArchiveFiles } from './takeout-archive.js'
+
+const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'takeout-archive-'))
+after(() => fs.rmSync(tempDir, { recursive: true, force: true }))
+
+const HISTORY = 'Takeout/YouTube and YouTube Music/history/watch-history.json'
+const PLAYLIST = 'Takeout/YouTube and YouTube Music/playlists/A playlist with a rather long title, long enough for the ustar prefix field-videos.csv'
+
+function makeZip(entries: { name: string; data: string; deflate: boolean }[]): Buffer {
+  const locals: Buffer[] = []
+  const centrals: Buffer[] = []
+  let offset = 0
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name)
+    const raw = Buffer.from(entry.data)
+    const data = entry.deflate ? zlib.deflateRawSync(raw) : raw
+
+    const local = Buffer.alloc(30)
+    local.writeUInt32LE(0x04034b50, 0)
+    local.writeUInt16LE(entry.deflate ? 8 : 0, 8)
+    local.writeUInt32LE(data.length, 18)
+    local.writeUInt32LE(raw.length, 22)
+    local.writeUInt16LE(name.length, 26)
+    locals.push(local, name, data)
+
+    const central = Buffer.alloc(46)
+    central.writeUInt32LE(0x02014b50, 0)
+    central.writeUInt16LE(entry.deflate ? 8 : 0, 10)
+    central.writeUInt32LE(data.length, 20)
+    central.writeUInt32LE(raw.length, 24)
+    central.writeUInt16LE(name.length, 28)
+    central.writeUInt32LE(offset, 42)
+    centrals.push(central, name)
+
+    offset += local.length + name.length + data.length
+  }
+
+  const directory = Buffer.concat(centrals)
+  const eocd = Buffer.alloc(22)
+  eocd.writeUInt32LE(0x06054b50, 0)
+  eocd.writeUInt16LE(entries.length, 8)
+  eocd.writeUInt16LE(entries.length, 10)
+  eocd.writeUInt32LE(directory.length, 12)
+  eocd.writeUInt32LE(offset, 16)
+  return Buffer.concat([...locals, directory, eocd])
+}
+
+function tarHeader(name: string, size: number, type: string, prefix = ''): Buffer {
+  const header = Buffer.alloc(512)
+  header.write(name, 0, 100)
+  header.write(size.toString(8).padStart(11, '0'), 124)
+  header.write(type, 156)
+  header.write('ustar', 257)
+  header.write(prefix, 345, 155)
+  return header
+}
+
+function tarEntry(header: Buffer, data: Buffer): Buffer[] {
+  return [header, data, Buffer.alloc((512 - (data.length % 512)) % 512)]
+}
+
+function makeTgz(entries: { name: string; data: string }[]): Buffer {
+  const blocks: Buffer[] = []
+  for (const entry of entries) {
+    const data = Buffer.from(entry.data)
+    if (Buffer.byteLength(entry.name) <= 100) {
+      blocks.push(...tarEntry(tarHeader(entry.name, data.length, '0'), data))
+    } else if (entry.name.lastIndexOf('/') <= 155 && Buffer.byteLength(path.posix.basename(entry.name)) <= 100) {
+      const split = entry.name.lastIndexOf('/')
+      blocks.push(...tarEntry(tarHeader(entry.name.slice(split + 1), data.length, '0', entry.name.slice(0, split)), data))
+    } else {
+      // GNU long name: the name is the data of a preceding 'L' entry
+      const longName = Buffer.from(`${entry.name}\0`)
+      blocks.push(...tarEntry(tarHeader('././@LongLink', longName.length, 'L'), longName))
+      blocks.push(...tarEntry(tarHeader(entry.name.slice(0, 100), data.length, '0'), data))
+    }
+  }
+  blocks.push(Buffer.alloc(1024))
+  return zlib.gzipSync(Buffer.concat(blocks))
+}
+
+const selectTakeout = (entryPath: string) => entryPath.endsWith('.json') || entryPath.endsWith('.csv')
+
+describe('isArchive', () => {
+  it('recognises zip and tgz archives', () => {
+    assert.ok(isArchive('/tmp/takeout-20240101T000000Z-001.zip'))
+    assert.ok(isArchive('/tmp/takeout.TGZ'))
+    assert.ok(isArchive('/tmp/takeout.tar.gz'))
+    assert.ok(!isArchive('/tmp/watch-history.json'))
+  })
+})
+
+describe('readArchiveFiles', () => {
+  it('reads stored and deflated zip entries, skipping unselected ones', async () => {
+    const archivePath = path.join(tempDir, 'takeout.zip')
+    fs.writeFileSync(archivePath, makeZip([
+      { name: HISTORY, data: '[{"title":"Watched"}]', deflate: true },
+      { name: 'Takeout/YouTube and YouTube Music/videos/clip.mp4', data: 'not wanted', deflate: false },
+      { name: PLAYLIST, data: 'Video ID\nabcdefghijk\n', deflate: false }
+    ]))
+
+    const files = await readArchiveFiles(archivePath, selectTakeout)
+    assert.deepEqual([...files.keys()], [HISTORY, PLAYLIST])
+    assert.equal(files.get(HISTORY)?.toString(), '[{"title":"Watched"}]')
+    assert.equal(files.get(PLAYLIST)?.toString(), 'Video ID\nabcdefghijk\n')
+  })
+
+  it('reads tgz entries, including ustar prefixes and GNU long names', async () => {
+    const longName = `Takeout/YouTube and YouTube Music/playlists/${'x'.repeat(120)}-videos.csv`
+    const archivePath = path.join(tempDir, 'takeout.tgz')
+    fs.writeFileSync(archivePath, makeTgz([
+      { name: HISTORY, data: '[]' },
+      { name: 'Takeout/archive_browser.html', data: '<html></html>' },
+      { name: PLAYLIST, data: 'Video ID\n' },
+      { name: longName, data: 'x'.repeat(1500) }
+    ]))
+
+    const files = await readArchiveFiles(archivePath, selectTakeout)
+    assert.deepEqual([...files.keys()], [HISTORY, PLAYLIST, longName])
+    assert.equal(files.get(HISTORY)?.toString(), '[]')
+    assert.equal(files.get(longName)?.length, 1500)
+  })
+
+  it('rejects files that are not zip archives', async () => {
+    const archivePath = path.join(tempDir, 'broken.zip')
+    fs.writeFileSync(archivePath, 'not a zip')
+    await assert.rejects(readArchiveFiles(archivePath, selectTakeout), /Not a zip archive/)
+  })
+})
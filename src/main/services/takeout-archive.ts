@@ -0,0 +1,262 @@
+import fs from 'fs'
+import zlib from 'zlib'
+import { promisify } from 'util'
+
+/**
+ * Minimal readers for Google Takeout archives
+ *
+ * Takeout is delivered as .zip or .tgz. Only a handful of small files are
+ * wanted from archives that can hold gigabytes of videos, so a zip is read
+ * through its central directory (ZIP64 included) and only the selected
+ * entries are inflated; a tgz has no index and is streamed through once,
+ * keeping the selected entries. Entries use forward slashes.
+ */
+
+const inflateRaw = promisify(zlib.inflateRaw)
+
+const EOCD_SIGNATURE = 0x06054b50
+const ZIP64_EOCD_LOCATOR_SIGNATURE = 0x07064b50
+const ZIP64_EOCD_SIGNATURE = 0x06064b50
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50
+const LOCAL_HEADER_SIGNATURE = 0x04034b50
+const ZIP64_EXTRA_ID = 0x0001
+// End of central directory record plus the longest possible comment
+const EOCD_SEARCH_SIZE = 22 + 0xffff
+
+const METHOD_STORED = 0
+const METHOD_DEFLATE = 8
+
+const TAR_BLOCK_SIZE = 512
+
+interface ZipEntry {
+  path: string
+  method: number
+  compressedSize: number
+  localHeaderOffset: number
+}
+
+export function isArchive(filePath: string): boolean {
+  return /\.(zip|tgz|tar\.gz)$/i.test(filePath)
+}
+
+/**
+ * Read the entries of a .zip or .tgz archive for which `select` returns true
+ */
+export async function readArchiveFiles(archivePath: string, select: (entryPath: string) => boolean): Promise<Map<string, Buffer>> {
+  return /\.zip$/i.test(archivePath)
+    ? readZipFiles(archivePath, select)
+    : readTgzFiles(archivePath, select)
+}
+
+async function readAt(handle: fs.promises.FileHandle, position: number, length: number): Promise<Buffer> {
+  const buffer = Buffer.alloc(length)
+  const { bytesRead } = await handle.read(buffer, 0, length, position)
+  if (bytesRead < length) {
+    throw new Error('Unexpected end of zip archive')
+  }
+  return buffer
+}
+
+async function readZipFiles(archivePath: string, select: (entryPath: string) => boolean): Promise<Map<string, Buffer>> {
+  const handle = await fs.promises.open(archivePath, 'r')
+  try {
+    const files = new Map<string, Buffer>()
+    for (const entry of await listZipEntries(handle)) {
+      if (!entry.path.endsWith('/') && select(entry.path)) {
+        files.set(entry.path, await readZipEntry(handle, entry))
+      }
+    }
+    return files
+  } finally {
+    await handle.close()
+  }
+}
+
+async function listZipEntries(handle: fs.promises.FileHandle): Promise<ZipEntry[]> {
+  const { size } = await handle.stat()
+  const tailSize = Math.min(size, EOCD_SEARCH_SIZE)
+  const tailStart = size - tailSize
+  const tail = await readAt(handle, tailStart, tailSize)
+
+  let eocd = -1
+  for (let i = tail.length - 22; i >= 0; i--) {
+    if (tail.readUInt32LE(i) === EOCD_SIGNATURE) {
+      eocd = i
+      break
+    }
+  }
+  if (eocd === -1) {
+    throw new Error('Not a zip archive')
+  }
+
+  let entryCount = tail.readUInt16LE(eocd + 10)
+  let directorySize = tail.readUInt32LE(eocd + 12)
+  let directoryOffset = tail.readUInt32LE(eocd + 16)
+
+  // Archives over 4 GB or 65535 entries keep the real values in the ZIP64 record
+  const locator = eocd - 20
+  if (locator >= 0 && tail.readUInt32LE(locator) === ZIP64_EOCD_LOCATOR_SIGNATURE) {
+    const record = await readAt(handle, Number(tail.readBigUInt64LE(locator + 8)), 56)
+    if (record.readUInt32LE(0) !== ZIP64_EOCD_SIGNATURE) {
+      throw new Error('Corrupt ZIP64 zip archive')
+    }
+    entryCount = Number(record.readBigUInt64LE(32))
+    directorySize = Number(record.readBigUInt64LE(40))
+    directoryOffset = Number(record.readBigUInt64LE(48))
+  }
+
+  const directory = await readAt(handle, directoryOffset, directorySize)
+  const entries: ZipEntry[] = []
+  let offset = 0
+  for (let i = 0; i < entryCount; i++) {
+    if (directory.readUInt32LE(offset) !== CENTRAL_HEADER_SIGNATURE) {
+      throw new Error('Corrupt zip central directory')
+    }
+    const method = directory.readUInt16LE(offset + 10)
+    let compressedSize = directory.readUInt32LE(offset + 20)
+    let uncompressedSize = directory.readUInt32LE(offset + 24)
+    const nameLength = directory.readUInt16LE(offset + 28)
+    const extraLength = directory.readUInt16LE(offset + 30)
+    const commentLength = directory.readUInt16LE(offset + 32)
+    let localHeaderOffset = directory.readUInt32LE(offset + 42)
+    const name = directory.toString('utf-8', offset + 46, offset + 46 + nameLength)
+
+    // ZIP64 extra field: the 64-bit values, in order, of the fields set to 0xFFFFFFFF
+    let extra = offset + 46 + nameLength
+    const extraEnd = extra + extraLength
+    while (extra + 4 <= extraEnd) {
+      const id = directory.readUInt16LE(extra)
+      const length = directory.readUInt16LE(extra + 2)
+      if (id === ZIP64_EXTRA_ID) {
+        let field = extra + 4
+        if (uncompressedSize === 0xffffffff) {
+          uncompressedSize = Number(directory.readBigUInt64LE(field))
+          field += 8
+        }
+        if (compressedSize === 0xffffffff) {
+          compressedSize = Number(directory.readBigUInt64LE(field))
+          field += 8
+        }
+        if (localHeaderOffset === 0xffffffff) {
+          localHeaderOffset = Number(directory.readBigUInt64LE(field))
+        }
+      }
+      extra += 4 + length
+    }
+
+    entries.push({ path: name.replace(/\\/g, '/'), method, compressedSize, localHeaderOffset })
+    offset = extraEnd + commentLength
+  }
+
+  return entries
+}
+
+async function readZipEntry(handle: fs.promises.FileHandle, entry: ZipEntry): Promise<Buffer> {
+  const header = await readAt(handle, entry.localHeaderOffset, 30)
+  if (header.readUInt32LE(0) !== LOCAL_HEADER_SIGNATURE) {
+    throw new Error(`Corrupt zip entry: ${entry.path}`)
+  }
+  // The local header's name and extra field can differ in length from the central directory's
+  const dataOffset = entry.localHeaderOffset + 30 + header.readUInt16LE(26) + header.readUInt16LE(28)
+  const data = await readAt(handle, dataOffset, entry.compressedSize)
+
+  switch (entry.method) {
+    case METHOD_STORED:
+      return data
+    case METHOD_DEFLATE:
+      return inflateRaw(data)
+    default:
+      throw new Error(`Unsupported zip compression method ${entry.method}: ${entry.path}`)
+  }
+}
+
+function readTarString(block: Buffer, offset: number, length: number): string {
+  const field = block.subarray(offset, offset + length)
+  const end = field.indexOf(0)
+  return field.toString('utf-8', 0, end === -1 ? length : end)
+}
+
+/**
+ * The path a pax extended header sets for the next entry, if any
+ */
+function paxPath(data: Buffer): string | undefined {
+  // Records are "<length> <key>=<value>\n"
+  for (const record of data.toString('utf-8').split('\n')) {
+    const match = record.match(/^\d+ path=(.*)$/s)
+    if (match) {
+      return match[1]
+    }
+  }
+  return undefined
+}
+
+async function readTgzFiles(archivePath: string, select: (entryPath: string) => boolean): Promise<Map<string, Buffer>> {
+  const files = new Map<string, Buffer>()
+  const stream = fs.createReadStream(archivePath).pipe(zlib.createGunzip())
+
+  let pending: Buffer = Buffer.alloc(0)
+  // Entry being read: its name, bytes left including padding, and its data when selected
+  let current: { path: string; type: string; remaining: number; size: number; chunks: Buffer[] | null } | null = null
+  // Name for the next entry from a GNU long name or pax header
+  let longPath: string | undefined
+
+  const finishEntry = (entry: NonNullable<typeof current>) => {
+    const data = entry.chunks ? Buffer.concat(entry.chunks).subarray(0, entry.size) : null
+    if (entry.type === 'L' && data) {
+      longPath = data.toString('utf-8').replace(/\0+$/, '')
+    } else if (entry.type === 'x' && data) {
+      longPath = paxPath(data) ?? longPath
+    } else if (data) {
+      files.set(entry.path, data)
+    }
+  }
+
+  for await (const chunk of stream as AsyncIterable<Buffer>) {
+    pending = pending.length > 0 ? Buffer.concat([pending, chunk]) : chunk
+
+    while (true) {
+      if (current) {
+        const take = Math.min(current.remaining, pending.length)
+        current.chunks?.push(pending.subarray(0, take))
+        current.remaining -= take
+        pending = pending.subarray(take)
+        if (current.remaining > 0) {
+          break
+        }
+        finishEntry(current)
+        current = null
+        continue
+      }
+
+      if (pending.length < TAR_BLOCK_SIZE) {
+        break
+      }
+      const header = pending.subarray(0, TAR_BLOCK_SIZE)
+      pending = pending.subarray(TAR_BLOCK_SIZE)
+      if (header.every(byte => byte === 0)) {
+        continue // End-of-archive padding
+      }
+
+      const size = parseInt(readTarString(header, 124, 12).trim() || '0', 8)
+      const type = readTarString(header, 156, 1) || '0'
+      const prefix = readTarString(header, 345, 155)
+      const name = readTarString(header, 0, 100)
+      const headerPath = type === 'L' || type === 'x' ? '' : longPath ?? (prefix ? `${prefix}/${name}` : name)
+      if (type !== 'L' && type !== 'x') {
+        longPath = undefined
+      }
+
+      const isFile = type === '0' || type === '7'
+      const keep = type === 'L' || type === 'x' || (isFile && select(headerPath))
+      current = {
+        path: headerPath,
+        type,
+        size,
+        remaining: Math.ceil(size / TAR_BLOCK_SIZE) * TAR_BLOCK_SIZE,
+        chunks: keep ? [] : null
+      }
+    }
+  }
+
+  return files
+}
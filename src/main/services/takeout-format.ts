@@ -0,0 +1,172 @@
+import { parseCsv } from './library-format.js'
+
+/**
+ * Google Takeout parsers
+ *
+ * YouTube's Takeout export has the watch history as `watch-history.json` or
+ * `watch-history.html` (depending on the format chosen when exporting) and one
+ * CSV per playlist. Older exports put playlist metadata above the video rows;
+ * newer ones keep it in a separate `playlists.csv` and name the per-playlist
+ * files `<title>-videos.csv`.
+ */
+
+export interface TakeoutWatchEntry {
+  videoId: string
+  title?: string
+  channelName?: string
+  channelId?: string
+  /** ISO timestamp of the most recent watch */
+  watchedAt?: string
+}
+
+export interface TakeoutPlaylist {
+  name: string
+  /** Video IDs in playlist order */
+  videoIds: string[]
+}
+
+const VIDEO_ID_PATTERN = /(?:[?&]v=|youtu\.be\/)([\w-]{11})/
+const CHANNEL_ID_PATTERN = /\/channel\/(UC[\w-]{22})/
+
+function extractVideoId(url: string | undefined): string | undefined {
+  return url?.match(VIDEO_ID_PATTERN)?.[1]
+}
+
+function decodeHtml(value: string): string {
+  return value
+    .replace(/<[^>]*>/g, '')
+    .replace(/&nbsp;|\u202F/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(parseInt(code)))
+    .replace(/&amp;/g, '&')
+    .trim()
+}
+
+/**
+ * Keep one entry per video; history is listed newest first, so the first one wins
+ */
+function dedupeEntries(entries: TakeoutWatchEntry[]): TakeoutWatchEntry[] {
+  const byId = new Map<string, TakeoutWatchEntry>()
+  for (const entry of entries) {
+    const existing = byId.get(entry.videoId)
+    if (!existing) {
+      byId.set(entry.videoId, entry)
+    } else {
+      // Older entries may still carry the title of a video that has since been removed
+      existing.title ??= entry.title
+      existing.channelName ??= entry.channelName
+      existing.channelId ??= entry.channelId
+    }
+  }
+  return [...byId.values()]
+}
+
+/**
+ * Read `watch-history.json`
+ * Ads and YouTube Music plays are skipped. Removed videos have their URL as the title.
+ */
+export function parseWatchHistoryJson(text: string): TakeoutWatchEntry[] {
+  const data = JSON.parse(text)
+  if (!Array.isArray(data)) {
+    throw new Error('Not a Takeout watch history file')
+  }
+
+  const entries: TakeoutWatchEntry[] = []
+  for (const item of data) {
+    const videoId = extractVideoId(item?.titleUrl)
+    if (!videoId || (item.header && item.header !== 'YouTube')) {
+      continue
+    }
+    if (Array.isArray(item.details) && item.details.some((detail: any) => /Google Ads/i.test(detail?.name || ''))) {
+      continue
+    }
+
+    const rawTitle = typeof item.title === 'string' ? item.title.replace(/^Watched /, '') : ''
+    const channel = Array.isArray(item.subtitles) ? item.subtitles[0] : undefined
+    const watchedAt = item.time ? new Date(item.time) : undefined
+
+    entries.push({
+      videoId,
+      title: rawTitle && !rawTitle.startsWith('http') ? rawTitle : undefined,
+      channelName: channel?.name || undefined,
+      channelId: channel?.url?.match(CHANNEL_ID_PATTERN)?.[1],
+      watchedAt: watchedAt && !isNaN(watchedAt.getTime()) ? watchedAt.toISOString() : undefined
+    })
+  }
+
+  return dedupeEntries(entries)
+}
+
+/**
+ * Read `watch-history.html`
+ * Each entry is an "outer-cell" block holding the video link, the channel link
+ * and a localized timestamp, which is kept only when it can be parsed.
+ */
+export function parseWatchHistoryHtml(html: string): TakeoutWatchEntry[] {
+  const entries: TakeoutWatchEntry[] = []
+
+  for (const block of html.split(/<div class="outer-cell/).slice(1)) {
+    if (/From Google Ads/i.test(block) || /mdl-typography--title">YouTube Music/.test(block)) {
+      continue
+    }
+
+    const content = block.match(/<div class="content-cell[^"]*mdl-typography--body-1">([\s\S]*?)<\/div>/)?.[1]
+    if (!content) {
+      continue
+    }
+
+    const links = [...content.matchAll(/<a href="([^"]*)">([\s\S]*?)<\/a>/g)]
+    const videoLink = links.find(([, href]) => extractVideoId(decodeHtml(href)))
+    if (!videoLink) {
+      continue
+    }
+    const videoId = extractVideoId(decodeHtml(videoLink[1]))!
+    const channelLink = links.find(([, href]) => CHANNEL_ID_PATTERN.test(href))
+    const title = decodeHtml(videoLink[2])
+
+    // The timestamp is the last line of the cell, e.g. "Mar 3, 2024, 9:15:02 PM CET"
+    const lines = content.split(/<br\s*\/?>/).map(decodeHtml).filter(Boolean)
+    const date = new Date((lines[lines.length - 1] || '').replace(/\s+[A-Z]{2,5}$/, ''))
+
+    entries.push({
+      videoId,
+      title: title && !title.startsWith('http') ? title : undefined,
+      channelName: channelLink ? decodeHtml(channelLink[2]) || undefined : undefined,
+      channelId: channelLink?.[1].match(CHANNEL_ID_PATTERN)?.[1],
+      watchedAt: isNaN(date.getTime()) ? undefined : date.toISOString()
+    })
+  }
+
+  return dedupeEntries(entries)
+}
+
+/**
+ * Read a playlist CSV in either layout; returns null for files without a video ID column
+ * (such as `playlists.csv` or `subscriptions.csv`)
+ */
+export function parsePlaylistCsv(fileName: string, text: string): TakeoutPlaylist | null {
+  const rows = parseCsv(text.replace(/^\uFEFF/, ''))
+  const headerIndex = rows.findIndex(row => row.some(cell => cell.trim().toLowerCase() === 'video id'))
+  if (headerIndex === -1) {
+    return null
+  }
+
+  const column = rows[headerIndex].findIndex(cell => cell.trim().toLowerCase() === 'video id')
+  const videoIds: string[] = []
+  for (const row of rows.slice(headerIndex + 1)) {
+    const videoId = (row[column] || '').trim()
+    if (/^[\w-]{11}$/.test(videoId) && !videoIds.includes(videoId)) {
+      videoIds.push(videoId)
+    }
+  }
+
+  // Old layout: "Title" row in the metadata block; new layout: "<title>-videos.csv"
+  const titleColumn = rows[0]?.findIndex(cell => cell.trim().toLowerCase() === 'title') ?? -1
+  const name = (headerIndex > 0 && titleColumn !== -1 && rows[1]?.[titleColumn]?.trim()) ||
+    fileName.replace(/\.csv$/i, '').replace(/-videos$/i, '')
+
+  return { name, videoIds }
+}
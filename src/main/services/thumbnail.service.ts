@@ -0,0 +1,146 @@
+import { app } from 'electron'
+import path from 'path'
+import fs from 'fs'
+import { databaseService, type Video } from './database.service.js'
+
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/png': 'png'
+}
+
+/**
+ * Candidate thumbnail URLs, best resolution first
+ * maxresdefault only exists for HD uploads; hqdefault exists for every video.
+ */
+function getThumbnailCandidates(video: Video): string[] {
+  const candidates = [
+    `https://i.ytimg.com/vi/${video.videoId}/maxresdefault.jpg`,
+    video.thumbnailUrl,
+    `https://i.ytimg.com/vi/${video.videoId}/hqdefault.jpg`
+  ]
+  return [...new Set(candidates.filter(Boolean))]
+}
+
+// A stalled image CDN connection shouldn't hold up the queue
+const FETCH_TIMEOUT_MS = 15 * 1000
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms))
+}
+
+/**
+ * Local thumbnail cache, so the library can be browsed offline
+ */
+class ThumbnailService {
+  private thumbnailsPath: string
+  private pending: string[] = []
+  private processing = false
+
+  constructor() {
+    const userDataPath = app.getPath('userData')
+    this.thumbnailsPath = path.join(userDataPath, 'thumbnails')
+
+    if (!fs.existsSync(this.thumbnailsPath)) {
+      fs.mkdirSync(this.thumbnailsPath, { recursive: true })
+    }
+  }
+
+  getThumbnailsPath(): string {
+    return this.thumbnailsPath
+  }
+
+  /**
+   * Download a video's thumbnail and record its path
+   * Returns the cached file path, or undefined if no candidate could be fetched.
+   */
+  async cacheThumbnail(videoId: string): Promise<string | undefined> {
+    const video = databaseService.getVideoByVideoId(videoId)
+    if (!video) {
+      return undefined
+    }
+    if (video.thumbnailPath && fs.existsSync(video.thumbnailPath)) {
+      return video.thumbnailPath
+    }
+
+    for (const url of getThumbnailCandidates(video)) {
+      try {
+        const response = await fetch(url, { signal: AbortSignal.timeout(FETCH_TIMEOUT_MS) })
+        if (!response.ok) {
+          continue
+        }
+
+        const contentType = response.headers.get('content-type')?.split(';')[0] || 'image/jpeg'
+        const extension = EXTENSIONS[contentType] || 'jpg'
+        const filePath = path.join(this.thumbnailsPath, `${videoId}.${extension}`)
+        await fs.promises.writeFile(filePath, Buffer.from(await response.arrayBuffer()))
+
+        databaseService.updateThumbnailPath(videoId, filePath)
+        return filePath
+      } catch (error) {
+        console.error('Failed to fetch thumbnail:', url, error)
+      }
+    }
+
+    console.log('No thumbnail available for', videoId)
+    return undefined
+  }
+
+  /**
+   * Cache thumbnails one at a time in the background (used for bulk imports)
+   */
+  enqueue(videoIds: string[]) {
+    this.pending.push(...videoIds.filter(id => !this.pending.includes(id)))
+    this.processQueue().catch(error => {
+      console.error('Thumbnail queue failed:', error)
+    })
+  }
+
+  /**
+   * Cache thumbnails for videos added before the cache existed (or while offline)
+   */
+  backfill() {
+    const videos = databaseService.getVideosWithoutThumbnail()
+    if (videos.length > 0) {
+      console.log('Caching missing thumbnails:', videos.length)
+      this.enqueue(videos.map(video => video.videoId))
+    }
+  }
+
+  /**
+   * Resolves once the background queue has been worked through
+   */
+  async whenIdle() {
+    while (this.processing) {
+      await sleep(250)
+    }
+  }
+
+  /**
+   * Delete a video's cached thumbnail
+   */
+  deleteThumbnail(video: Video) {
+    if (video.thumbnailPath && fs.existsSync(video.thumbnailPath)) {
+      fs.unlinkSync(video.thumbnailPath)
+    }
+    this.pending = this.pending.filter(id => id !== video.videoId)
+  }
+
+  private async processQueue() {
+    if (this.processing) {
+      return
+    }
+
+    this.processing = true
+    try {
+      let videoId: string | undefined
+      while ((videoId = this.pending.shift())) {
+        await this.cacheThumbnail(videoId)
+      }
+    } finally {
+      this.processing = false
+    }
+  }
+}
+
+export const thumbnailService = new ThumbnailService()
@@ -0,0 +1,89 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import path from 'path'
+import { parseRangeHeader, resolveTubePath } from './tube-protocol.js'
+
+const roots = {
+  downloads: path.resolve('/library/downloads'),
+  thumbnails: path.resolve('/library/thumbnails')
+}
+
+function isUnder(filePath: string | null, root: string): boolean {
+  return filePath !== null && filePath.startsWith(root + path.sep)
+}
+
+describe('resolveTubePath', () => {
+  it('resolves files in the downloads and thumbnails folders', () => {
+    assert.equal(resolveTubePath('tube://abc123.mp4', roots), path.join(roots.downloads, 'abc123.mp4'))
+    assert.equal(resolveTubePath('tube://thumbnails/abc123.jpg', roots), path.join(roots.thumbnails, 'abc123.jpg'))
+  })
+
+  it('refuses .. segments', () => {
+    assert.equal(resolveTubePath('tube://../videos.db', roots), null)
+    assert.equal(resolveTubePath('tube://%2E%2E/videos.db', roots), null)
+  })
+
+  it('refuses encoded separators', () => {
+    assert.equal(resolveTubePath('tube://..%2Fvideos.db', roots), null)
+    assert.equal(resolveTubePath('tube://%2Fetc%2Fpasswd', roots), null)
+    assert.equal(resolveTubePath('tube://..%5Cvideos.db', roots), null)
+    assert.equal(resolveTubePath('tube://a%5C..%5C..%5Cb', roots), null)
+  })
+
+  it('refuses a sibling folder sharing the downloads prefix', () => {
+    assert.equal(resolveTubePath('tube://..%2Fdownloads-evil%2Fa.mp4', roots), null)
+    assert.equal(resolveTubePath('tube://%2E%2E/downloads-evil/a.mp4', roots), null)
+  })
+
+  it('keeps thumbnails/../ inside the thumbnails folder', () => {
+    const resolved = resolveTubePath('tube://thumbnails/../videos.db', roots)
+    assert.ok(isUnder(resolved, roots.thumbnails), String(resolved))
+    assert.equal(resolveTubePath('tube://thumbnails/..%2F..%2Fvideos.db', roots), null)
+  })
+
+  it('treats an absolute path in the URL as relative to the folder', () => {
+    assert.ok(isUnder(resolveTubePath('tube:///etc/passwd', roots), roots.downloads))
+    assert.ok(isUnder(resolveTubePath('tube://C:/Windows/win.ini', roots), roots.downloads))
+  })
+
+  it('refuses URLs that name no file or another scheme', () => {
+    assert.equal(resolveTubePath('tube://thumbnails', roots), null)
+    assert.equal(resolveTubePath('file:///etc/passwd', roots), null)
+    assert.equal(resolveTubePath('tube://%E0%A4%A.mp4', roots), null)
+  })
+})
+
+describe('parseRangeHeader', () => {
+  it('sends the whole file without a header', () => {
+    assert.equal(parseRangeHeader(null, 1000), null)
+    assert.equal(parseRangeHeader('', 1000), null)
+  })
+
+  it('parses closed ranges, clamping the end to the file', () => {
+    assert.deepEqual(parseRangeHeader('bytes=0-99', 1000), { start: 0, end: 99 })
+    assert.deepEqual(parseRangeHeader('bytes=900-5000', 1000), { start: 900, end: 999 })
+  })
+
+  it('parses suffix ranges', () => {
+    assert.deepEqual(parseRangeHeader('bytes=-100', 1000), { start: 900, end: 999 })
+    assert.deepEqual(parseRangeHeader('bytes=-5000', 1000), { start: 0, end: 999 })
+    assert.equal(parseRangeHeader('bytes=-0', 1000), 'unsatisfiable')
+  })
+
+  it('parses open-ended ranges', () => {
+    assert.deepEqual(parseRangeHeader('bytes=500-', 1000), { start: 500, end: 999 })
+  })
+
+  it('reports a start beyond the file as unsatisfiable (416)', () => {
+    assert.equal(parseRangeHeader('bytes=1000-', 1000), 'unsatisfiable')
+    assert.equal(parseRangeHeader('bytes=2000-3000', 1000), 'unsatisfiable')
+    assert.equal(parseRangeHeader('bytes=0-', 0), 'unsatisfiable')
+  })
+
+  it('ignores multiple ranges and malformed headers', () => {
+    assert.equal(parseRangeHeader('bytes=0-99,200-299', 1000), null)
+    assert.equal(parseRangeHeader('bytes=abc', 1000), null)
+    assert.equal(parseRangeHeader('items=0-99', 1000), null)
+    assert.equal(parseRangeHeader('bytes=500-100', 1000), null)
+  })
+})
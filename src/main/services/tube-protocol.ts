@@ -0,0 +1,112 @@
+import path from 'path'
+
+/**
+ * tube:// URL handling
+ *
+ * `tube://{file}` serves files from the library folder (downloads and
+ * subtitles) and `tube://thumbnails/{file}` cached thumbnails. Everything here
+ * is pure so the path checks can be exercised without Electron: a URL only
+ * resolves when the resulting path stays inside its folder after `..`
+ * segments, encoded separators and drive letters have been dealt with.
+ */
+
+export interface TubeRoots {
+  downloads: string
+  thumbnails: string
+}
+
+export interface ByteRange {
+  start: number
+  /** Inclusive, as in Content-Range */
+  end: number
+}
+
+const MIME_TYPES: Record<string, string> = {
+  '.mp4': 'video/mp4',
+  '.m4a': 'audio/mp4',
+  '.webm': 'video/webm',
+  '.mkv': 'video/x-matroska',
+  '.vtt': 'text/vtt; charset=utf-8',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.webp': 'image/webp'
+}
+
+function isInside(child: string, parent: string): boolean {
+  const relative = path.relative(parent, child)
+  return relative !== '' && relative !== '..' && !relative.startsWith(`..${path.sep}`) && !path.isAbsolute(relative)
+}
+
+/**
+ * Map a tube:// URL to the file it refers to, or null if it doesn't name a file inside the served folders
+ */
+export function resolveTubePath(requestUrl: string, roots: TubeRoots): string | null {
+  let url: URL
+  try {
+    url = new URL(requestUrl)
+  } catch {
+    return null
+  }
+  if (url.protocol !== 'tube:') {
+    return null
+  }
+
+  // tube://name.mp4 parses with the file name as the host, tube://thumbnails/name.jpg with a path
+  let segments: string[]
+  try {
+    segments = `${url.host}${url.pathname}`.split('/').filter(Boolean).map(decodeURIComponent)
+  } catch {
+    return null // Malformed percent-encoding
+  }
+  // Separators smuggled in as %2F / %5C, and dot segments the URL parser left alone
+  if (segments.some(segment => /[\\/\0]/.test(segment) || segment === '.' || segment === '..')) {
+    return null
+  }
+
+  const isThumbnail = segments[0] === 'thumbnails'
+  const names = isThumbnail ? segments.slice(1) : segments
+  if (names.length === 0) {
+    return null
+  }
+
+  const baseDir = path.resolve(isThumbnail ? roots.thumbnails : roots.downloads)
+  const filePath = path.resolve(baseDir, ...names)
+  return isInside(filePath, baseDir) ? filePath : null
+}
+
+/**
+ * Parse a Range header for a file of `size` bytes
+ * Returns null when the whole file should be sent (no header, multiple ranges
+ * or a header that can't be parsed, which HTTP says to ignore) and
+ * 'unsatisfiable' when the range lies past the end of the file (416).
+ */
+export function parseRangeHeader(header: string | null | undefined, size: number): ByteRange | 'unsatisfiable' | null {
+  const match = header?.trim().match(/^bytes=(\d*)-(\d*)$/)
+  if (!match || (match[1] === '' && match[2] === '')) {
+    return null
+  }
+
+  if (match[1] === '') {
+    // Suffix range: the last N bytes
+    const length = Number(match[2])
+    if (length === 0 || size === 0) {
+      return 'unsatisfiable'
+    }
+    return { start: Math.max(0, size - length), end: size - 1 }
+  }
+
+  const start = Number(match[1])
+  const end = match[2] === '' ? size - 1 : Math.min(Number(match[2]), size - 1)
+  if (start >= size) {
+    return 'unsatisfiable'
+  }
+  if (end < start) {
+    return null
+  }
+  return { start, end }
+}
+
+export function getMimeType(filePath: string): string {
+  return MIME_TYPES[path.extname(filePath).toLowerCase()] || 'application/octet-stream'
+}
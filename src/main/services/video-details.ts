@@ -0,0 +1,63 @@
+import { YTNodes, type YT } from 'youtubei.js'
+
+export interface VideoChapter {
+  title: string
+  /** Chapter start in milliseconds */
+  startMs: number
+}
+
+/**
+ * Metadata beyond the basics stored when a video is added
+ */
+export interface VideoDetails {
+  channelId?: string
+  /** Publish date (YYYY-MM-DD) */
+  publishDate?: string
+  viewCount?: number
+  likeCount?: number
+  keywords: string[]
+  category?: string
+  chapters: VideoChapter[]
+}
+
+/**
+ * Publish date from the player microformat
+ * basic_info.start_timestamp is the live stream start, which is empty for regular uploads.
+ */
+function getPublishDate(info: YT.VideoInfo): string | undefined {
+  const microformat = info.page[0].microformat
+  const date = microformat?.is(YTNodes.PlayerMicroformat)
+    ? microformat.publish_date || microformat.upload_date
+    : undefined
+  return date?.slice(0, 10) || info.basic_info.start_timestamp?.toISOString().split('T')[0]
+}
+
+/**
+ * Chapter markers from the player bar (videos without chapters have none)
+ */
+function getChapters(info: YT.VideoInfo): VideoChapter[] {
+  const markers = info.player_overlays?.decorated_player_bar?.player_bar?.markers_map
+  const chapters = markers?.find(marker => marker.value.chapters?.length)?.value.chapters || []
+
+  return chapters.map(chapter => ({
+    title: chapter.title.toString(),
+    startMs: chapter.time_range_start_millis
+  }))
+}
+
+/**
+ * Extract the stored metadata from a getInfo response
+ */
+export function extractVideoDetails(info: YT.VideoInfo): VideoDetails {
+  const basicInfo = info.basic_info
+
+  return {
+    channelId: basicInfo.channel_id || basicInfo.channel?.id,
+    publishDate: getPublishDate(info),
+    viewCount: basicInfo.view_count,
+    likeCount: basicInfo.like_count,
+    keywords: basicInfo.keywords || [],
+    category: basicInfo.category || undefined,
+    chapters: getChapters(info)
+  }
+}
@@ -0,0 +1,56 @@
+import { ApiError } from '../../ipc-contract.js'
+import { databaseService, type Video } from './database.service.js'
+import { youtubeService } from './youtube.service.js'
+import { thumbnailService } from './thumbnail.service.js'
+import { extractVideoDetails } from './video-details.js'
+
+const VIDEO_URL_PATTERN = /(?:youtu\.be\/|youtube\.com(?:\/embed\/|\/v\/|\/watch\?v=|\/watch\?.+&v=))([^&\n?#]+)/
+
+/**
+ * Adds single videos to the library (used by the app and the command line)
+ */
+class VideoService {
+  /**
+   * Fetch a video's metadata using Youtube.js and add it to the library
+   * The thumbnail is cached for offline browsing in the background; the remote
+   * URL is shown until then and kept as a fallback.
+   */
+  async addByUrl(url: string): Promise<Video> {
+    // Extract video ID from URL
+    const videoIdMatch = url.match(VIDEO_URL_PATTERN)
+    if (!videoIdMatch) {
+      throw new ApiError('INVALID_ARGUMENT', 'Invalid YouTube URL')
+    }
+    const videoId = videoIdMatch[1]
+
+    // Check for duplicates
+    if (databaseService.getVideoByVideoId(videoId)) {
+      throw new ApiError('CONFLICT', 'Video already added')
+    }
+
+    console.log('Fetching metadata for:', url)
+    const youtube = await youtubeService.getClient()
+    const info = await youtube.getInfo(videoId)
+    const basicInfo = info.basic_info
+    const details = extractVideoDetails(info)
+
+    const video = databaseService.addVideo({
+      videoId,
+      url,
+      title: basicInfo.title || 'Untitled',
+      thumbnailUrl: basicInfo.thumbnail?.[0]?.url || '',
+      duration: basicInfo.duration || 0,
+      channelName: basicInfo.author || 'Unknown',
+      description: basicInfo.short_description || '',
+      uploadDate: details.publishDate
+    })
+    databaseService.updateVideoDetails(videoId, details)
+
+    console.log('Video added:', video.title)
+
+    thumbnailService.enqueue([videoId])
+    return databaseService.getVideoByVideoId(videoId)!
+  }
+}
+
+export const videoService = new VideoService()
@@ -1,3 +1,5 @@
+import type { RendererApi } from './ipc-contract'
+
 export interface VideoMetadata {
   id: string
   url: string
@@ -6,9 +8,60 @@ export interface VideoMetadata {
   duration: number
   channel: string
   filePath?: string
-  downloadStatus?: 'pending' | 'downloading' | 'completed' | 'failed'
+  downloadStatus?: 'pending' | 'queued' | 'downloading' | 'paused' | 'completed' | 'failed'
   downloadProgress?: number
   fileSize?: number
+  downloadAttempts?: number
+  lastError?: DownloadErrorInfo
+  /** Whether the video can still be watched on YouTube */
+  availability?: AvailabilityStatus
+  channelId?: string
+  /** Publish date (YYYY-MM-DD) */
+  uploadDate?: string
+  viewCount?: number
+  likeCount?: number
+  keywords?: string[]
+  category?: string
+  /** When the video was added to the library */
+  addedAt?: string
+  tags?: string[]
+  /** Position (seconds) to resume playback from; 0 once the video is watched */
+  watchPosition?: number
+  watched?: boolean
+  /** Highlighted match fragment, only set on search results */
+  snippet?: SnippetSegment[]
+  /** Caption segments matching the search, only set on search results */
+  transcriptMatches?: TranscriptMatch[]
+}
+
+export type AvailabilityStatus = 'available' | 'private' | 'removed' | 'region_blocked' | 'restricted'
+
+export interface AvailabilityRecord {
+  id: number
+  videoId: string
+  status: AvailabilityStatus
+  reason?: string
+  checkedAt: string
+}
+
+export interface VideoChapter {
+  title: string
+  startMs: number
+}
+
+export interface TranscriptMatch {
+  startMs: number
+  text: SnippetSegment[]
+}
+
+export interface SnippetSegment {
+  text: string
+  highlighted: boolean
+}
+
+export interface DownloadErrorInfo {
+  code: string
+  message: string
 }
 
 export interface YouTubeSearchResult {
@@ -22,31 +75,265 @@ export interface YouTubeSearchResult {
   publishedDate?: string
 }
 
-export interface ApiResponse<T> {
-  success: boolean
-  data?: T
+export interface DownloadJob {
+  id: number
+  videoId: string
+  url: string
+  priority: number
+  status: 'queued' | 'active'
+  options?: DownloadOptions
+  createdAt: string
+}
+
+export interface QueueStatus {
+  paused: boolean
+  maxConcurrency: number
+  jobs: DownloadJob[]
+}
+
+export interface DownloadOptions {
+  quality: 'best' | '2160p' | '1440p' | '1080p' | '720p' | '480p' | '360p'
+  codec: 'any' | 'avc1' | 'av01'
+  audioOnly: boolean
+  audioFormat: 'm4a' | 'opus'
+  adaptive: boolean
+  itag?: number
+  subtitles?: SubtitleSelection[]
+}
+
+export interface SubtitleSelection {
+  languageCode: string
+  auto: boolean
+}
+
+export interface CaptionTrackInfo {
+  languageCode: string
+  name: string
+  kind: 'manual' | 'auto'
+}
+
+export interface SubtitleTrack extends CaptionTrackInfo {
+  url: string
+}
+
+export interface FormatInfo {
+  itag: number
+  kind: 'progressive' | 'video' | 'audio'
+  mimeType: string
+  codecs: string
+  extension: string
+  qualityLabel?: string
+  width?: number
+  height?: number
+  fps?: number
+  bitrate: number
+  audioQuality?: string
+  audioSampleRate?: number
+  contentLength?: number
+}
+
+export interface AppSettings {
+  maxConcurrentDownloads: number
+  queuePaused: boolean
+  maxDownloadAttempts: number
+  defaultDownloadOptions: DownloadOptions
+  channelCheckIntervalMinutes: number
+  watchedThresholdPercent: number
+  metadataRefreshIntervalHours: number
+  libraryPath: string
+  apiServerEnabled: boolean
+  apiServerPort: number
+  apiToken: string
+}
+
+export interface Playlist {
+  id: number
+  playlistId: string
+  url: string
+  title: string
+  description?: string
+  channelName?: string
+  thumbnailUrl?: string
+  videoCount: number
+  createdAt: string
+  updatedAt: string
+}
+
+export interface PlaylistImportResult {
+  playlist: Playlist
+  total: number
+  added: number
+  skipped: number
+  queued: number
+}
+
+export interface Tag {
+  id: number
+  name: string
+  videoCount: number
+}
+
+export interface Collection {
+  id: number
+  name: string
+  description?: string
+  videoCount: number
+  createdAt: string
+  updatedAt: string
+}
+
+export interface WatchProgress {
+  videoId: string
+  position: number
+  duration?: number
+  watchTime: number
+  watched: boolean
+  watchedAt?: string
+  lastWatchedAt: string
+}
+
+export interface WatchHistoryEntry {
+  id: number
+  videoId: string
+  title: string
+  startedAt: string
+  endedAt: string
+  position: number
+  watchTime: number
+}
+
+export type LibraryExportFormat = 'json' | 'csv' | 'opml'
+
+export interface LibraryExportResult {
+  path: string
+  videos: number
+  collections: number
+  channels: number
+  files: number
+}
+
+export interface LibraryImportReport {
+  dryRun: boolean
+  format: LibraryExportFormat
+  videosAdded: number
+  videosMerged: number
+  videosUnchanged: number
+  tagsCreated: number
+  tagAssignments: number
+  collectionsCreated: number
+  collectionVideosAdded: number
+  watchStatesUpdated: number
+  filesCopied: number
+  channelsSubscribed: number
+  channelsSkipped: number
+  errors: string[]
+}
+
+export interface TakeoutImportReport {
+  sourcePath: string
+  historyEntries: number
+  playlists: number
+  videosAdded: number
+  videosExisting: number
+  watchedMarked: number
+  collectionsCreated: number
+  collectionVideosAdded: number
+  /** Metadata of the added videos is fetched in the background after the import returns */
+  metadataTotal: number
+  metadataFetched: number
+  metadataFailed: number
+  finished: boolean
+  errors: string[]
+}
+
+export interface StorageStats {
+  libraryPath: string
+  isDefaultLocation: boolean
+  /** False when the library folder is missing, e.g. an unplugged drive */
+  available: boolean
+  totalBytes: number
+  fileCount: number
+  freeBytes?: number
+  diskBytes?: number
+  byChannel: { channelName: string; videos: number; bytes: number }[]
+  largestFiles: { videoId: string; title: string; channelName: string; bytes: number }[]
+}
+
+export interface LibraryMoveProgress {
+  copiedBytes: number
+  totalBytes: number
+  copiedFiles: number
+  totalFiles: number
+}
+
+export interface LibraryMoveResult {
+  from: string
+  to: string
+  files: number
+  bytes: number
+  updatedPaths: number
+}
+
+export type IntegrityIssueKind = 'missing_file' | 'size_mismatch' | 'orphan_file' | 'stuck_download'
+
+export type RepairAction = 'reset' | 'redownload' | 'adopt' | 'delete'
+
+export interface IntegrityIssue {
+  kind: IntegrityIssueKind
+  videoId?: string
+  title?: string
+  filePath?: string
+  /** Size recorded in the library */
+  expectedSize?: number
+  /** Size on disk */
+  actualSize?: number
+  actions: RepairAction[]
+}
+
+export interface IntegrityReport {
+  libraryPath: string
+  videosChecked: number
+  filesChecked: number
+  issues: IntegrityIssue[]
+}
+
+export interface ApiServerStatus {
+  enabled: boolean
+  /** Listening right now; false while disabled or when the port couldn't be bound */
+  running: boolean
+  port: number
+  /** e.g. http://127.0.0.1:27480 */
+  url: string
+  token: string
+  /** Why the server isn't running although it's enabled */
   error?: string
 }
 
-// Electron API exposed via contextBridge
+export interface ChannelRules {
+  autoDownload: boolean
+  maxDuration?: number
+  keywordFilter?: string
+  maxAgeDays?: number
+}
+
+export interface Channel extends ChannelRules {
+  id: number
+  channelId: string
+  handle?: string
+  name: string
+  url: string
+  thumbnailUrl?: string
+  lastCheckedAt?: string
+  lastCheckError?: string
+  createdAt: string
+}
+
+export type { ApiErrorCode, ApiResponse } from './ipc-contract'
+
+// Electron API exposed via contextBridge, derived from the IPC contract
 declare global {
   interface Window {
-    api: {
-      video: {
-        add: (url: string) => Promise<{ success: boolean; video?: VideoMetadata; error?: string }>
-        getAll: () => Promise<{ success: boolean; videos?: VideoMetadata[]; error?: string }>
-        search: (query: string) => Promise<{ success: boolean; videos?: VideoMetadata[]; error?: string }>
-        searchYouTube: (query: string) => Promise<{ success: boolean; videos?: YouTubeSearchResult[]; error?: string }>
-        delete: (videoId: string) => Promise<{ success: boolean; error?: string }>
-        download: (videoId: string, url: string) => Promise<{ success: boolean; filePath?: string; fileSize?: number; error?: string }>
-        cancelDownload: (videoId: string) => Promise<{ success: boolean; cancelled?: boolean; error?: string }>
-        onDownloadProgress: (callback: (data: { videoId: string; progress: number }) => void) => void
-      }
-      system: {
-        checkYtDlp: () => Promise<{ success: boolean; installed?: boolean; error?: string }>
-        getDownloadsPath: () => Promise<{ success: boolean; path?: string; error?: string }>
-      }
-    }
+    api: RendererApi
   }
 }
 